@@ -4,12 +4,14 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Chat from "@/pages/chat";
+import Lobby from "@/pages/lobby";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Chat} />
+      <Route path="/rooms" component={Lobby} />
       <Route path="/room/:room" component={Chat} />
       <Route component={NotFound} />
     </Switch>
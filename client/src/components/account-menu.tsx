@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { useAccount } from '@/hooks/use-account';
+
+// Optional sign-in; registered names can't be taken by guests in any room
+export function AccountMenu() {
+  const { account, signIn, logout } = useAccount();
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setError('');
+      await signIn(mode, { username, password });
+      setPassword('');
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message.replace(/^\d+: /, '') : 'Sign-in failed');
+    }
+  };
+
+  return (
+    <div className="absolute bottom-20 right-4 z-50 flex flex-col items-end gap-2 text-xs">
+      {open && !account && (
+        <form
+          onSubmit={handleSubmit}
+          className="w-64 bg-gray-800/95 backdrop-blur-sm rounded-xl border border-gray-700 p-3 space-y-2"
+        >
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={mode === 'register' ? 'Password (8+ characters)' : 'Password'}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          {error && <div className="text-red-400">{error}</div>}
+          <div className="flex items-center justify-between gap-2">
+            <button
+              type="button"
+              onClick={() => setMode(mode === 'login' ? 'register' : 'login')}
+              className="text-gray-400 hover:text-gray-200"
+            >
+              {mode === 'login' ? 'Create an account' : 'Have an account? Log in'}
+            </button>
+            <button
+              type="submit"
+              disabled={!username || !password}
+              className="px-3 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-medium transition-colors"
+            >
+              {mode === 'login' ? 'Log in' : 'Sign up'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {account ? (
+        <div className="flex items-center gap-2 bg-gray-800/90 backdrop-blur-sm px-3 py-2 rounded-full border border-gray-700 text-gray-300">
+          <i className="fas fa-user-check text-emerald-400" />
+          <span className="font-medium">{account.username}</span>
+          <button type="button" onClick={() => logout()} className="text-gray-500 hover:text-gray-200">
+            Log out
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="bg-gray-800/90 hover:bg-gray-700/90 backdrop-blur-sm px-3 py-2 rounded-full border border-gray-700 text-gray-300 transition-colors"
+        >
+          <i className="fas fa-user text-gray-400 mr-1" />
+          Log in
+        </button>
+      )}
+    </div>
+  );
+}
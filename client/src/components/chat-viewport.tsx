@@ -1,16 +1,18 @@
 import { useRef, useEffect } from 'react';
 import { MessageBubble } from './message-bubble';
-import type { Message } from '@shared/schema';
+import type { DisplayMessage } from '@/lib/display-message';
 
 interface ChatViewportProps {
-  messages: Message[];
-  typingMessages: Map<string, { content: string; yPosition: number; username: string; color?: string; fontSize?: string }>;
+  messages: DisplayMessage[];
+  typingMessages: Map<string, { content: string; yPosition: number; username: string; userColor?: string; fontSize?: string }>;
   currentUser?: string;
   userSettings?: { color: string; fontSize: string };
-  onMessageExpired?: (message: Message) => void;
+  onMessageExpired?: (message: DisplayMessage) => void;
+  onEditMessage?: (message: DisplayMessage) => void;
+  onRetractMessage?: (message: DisplayMessage) => void;
 }
 
-export function ChatViewport({ messages, typingMessages, currentUser, userSettings, onMessageExpired }: ChatViewportProps) {
+export function ChatViewport({ messages, typingMessages, currentUser, userSettings, onMessageExpired, onEditMessage, onRetractMessage }: ChatViewportProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -25,15 +27,24 @@ export function ChatViewport({ messages, typingMessages, currentUser, userSettin
       {/* Main message container - no scrolling needed, messages animate across */}
       <div className="h-full relative w-full">
         {/* Completed messages */}
-        {messages.map((message) => (
-          <MessageBubble
-            key={`message-${message.id}-${message.timestamp}`}
-            message={message}
-            userColor={message.userColor || (message.username === currentUser ? userSettings?.color : undefined)}
-            fontSize={message.fontSize || (message.username === currentUser ? userSettings?.fontSize : undefined)}
-            onExpired={onMessageExpired}
-          />
-        ))}
+        {messages.map((message) => {
+          // Own messages become editable once the server has acknowledged them
+          const editable = message.username === currentUser && message.id > 0 && !message.retracted && !message.undelivered;
+          return (
+            <MessageBubble
+              key={message.clientKey}
+              message={message}
+              stableKey={message.clientKey}
+              userColor={message.userColor || (message.username === currentUser ? userSettings?.color : undefined)}
+              fontSize={message.fontSize || (message.username === currentUser ? userSettings?.fontSize : undefined)}
+              retracted={message.retracted}
+              undelivered={message.undelivered}
+              onExpired={onMessageExpired}
+              onEdit={editable ? onEditMessage : undefined}
+              onRetract={editable ? onRetractMessage : undefined}
+            />
+          );
+        })}
         
         {/* Currently typing messages */}
         {Array.from(typingMessages.entries()).map(([username, data]) => (
@@ -48,8 +59,14 @@ export function ChatViewport({ messages, typingMessages, currentUser, userSettin
               timestamp: new Date(),
               xPosition: 0,
               yPosition: data.yPosition,
-              userColor: data.userColor,
-              fontSize: data.fontSize,
+              userColor: data.userColor ?? null,
+              fontSize: data.fontSize ?? null,
+              sourceUrl: null,
+              sourceLabel: null,
+              sourceBadge: null,
+              storyUrl: null,
+              storyLabel: null,
+              editedAt: null,
             }}
             isTyping={true}
             userColor={username === currentUser ? userSettings?.color : data.userColor}
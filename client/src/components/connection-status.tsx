@@ -1,21 +1,35 @@
 interface ConnectionStatusProps {
   isConnected: boolean;
   connectedUsers: number;
+  latencyMs?: number | null; // Last ping round trip; null until one has been answered
+  isStalled?: boolean; // Connected, but the server has stopped answering
 }
 
-export function ConnectionStatus({ isConnected, connectedUsers }: ConnectionStatusProps) {
+const latencyColor = (latencyMs: number) =>
+  latencyMs < 150 ? 'text-emerald-400' : latencyMs < 500 ? 'text-yellow-400' : 'text-red-400';
+
+export function ConnectionStatus({ isConnected, connectedUsers, latencyMs = null, isStalled = false }: ConnectionStatusProps) {
+  const stalled = isConnected && isStalled;
+
   return (
     <div className="absolute top-4 left-4 z-50 flex items-center gap-2 bg-gray-800/90 backdrop-blur-sm px-3 py-2 rounded-full border border-gray-700">
       <div 
         className={`w-2 h-2 rounded-full ${
-          isConnected 
+          stalled
+            ? 'bg-yellow-500'
+            : isConnected 
             ? 'bg-emerald-500 animate-pulse' 
             : 'bg-red-500'
         }`}
       />
       <span className="text-xs text-gray-300 font-medium">
-        {isConnected ? 'Connected' : 'Disconnected'}
+        {stalled ? 'Stalled' : isConnected ? 'Connected' : 'Disconnected'}
       </span>
+      {isConnected && !stalled && latencyMs !== null && (
+        <span className={`text-xs ${latencyColor(latencyMs)}`} title="Round trip to the server">
+          {latencyMs}ms
+        </span>
+      )}
       <span className="text-xs text-gray-500">
         {connectedUsers} online
       </span>
@@ -11,6 +11,12 @@ interface CustomizationBarProps {
   onTextColorChange: (color: string) => void;
   usernameStatus?: 'valid' | 'pending' | 'rejected';
   validUsername?: string;
+  // Text of the message being edited; null when composing a new message
+  editingContent?: string | null;
+  onSubmitEdit?: (content: string) => void;
+  onCancelEdit?: () => void;
+  // Why the server dropped the last message; empty when there's nothing to report
+  deliveryError?: string;
 }
 
 export function CustomizationBar({
@@ -23,6 +29,10 @@ export function CustomizationBar({
   onTextColorChange,
   usernameStatus = 'valid',
   validUsername,
+  editingContent = null,
+  onSubmitEdit,
+  onCancelEdit,
+  deliveryError = '',
 }: CustomizationBarProps) {
   const [currentMessage, setCurrentMessage] = useState('');
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
@@ -32,6 +42,18 @@ export function CustomizationBar({
   const emojiPickerRef = useRef<HTMLDivElement>(null);
   const idleTimeoutRef = useRef<NodeJS.Timeout>();
   const inputRef = useRef<HTMLInputElement>(null);
+  const isEditing = editingContent !== null;
+
+  // Load the message being edited into the input
+  useEffect(() => {
+    if (editingContent === null) return;
+    if (idleTimeoutRef.current) {
+      clearTimeout(idleTimeoutRef.current);
+    }
+    setCurrentMessage(editingContent);
+    setLastMessageLength(editingContent.length);
+    inputRef.current?.focus();
+  }, [editingContent]);
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     // Block paste shortcuts completely
@@ -50,6 +72,19 @@ export function CustomizationBar({
       }
     }
     
+    if (isEditing) {
+      if (e.key === 'Enter' && currentMessage.trim()) {
+        onSubmitEdit?.(currentMessage);
+        setCurrentMessage('');
+        setLastMessageLength(0);
+      } else if (e.key === 'Escape') {
+        onCancelEdit?.();
+        setCurrentMessage('');
+        setLastMessageLength(0);
+      }
+      return;
+    }
+
     if (e.key === 'Enter') {
       // Clear idle timeout when manually completing
       if (idleTimeoutRef.current) {
@@ -111,6 +146,14 @@ export function CustomizationBar({
       return;
     }
     
+    // Edits are sent as a whole on Enter, not streamed as keystrokes
+    if (isEditing) {
+      setCurrentMessage(value.substring(0, 200));
+      setLastKeystroke(now);
+      setLastMessageLength(value.length);
+      return;
+    }
+
     // Content length limiting
     if (value.length > 200) {
       const truncatedValue = value.substring(0, 200);
@@ -148,8 +191,9 @@ export function CustomizationBar({
     setCurrentMessage(newMessage);
     setLastMessageLength(newMessage.length);
     setLastKeystroke(Date.now());
-    onSendKeystroke(newMessage, false);
     setShowEmojiPicker(false);
+    if (isEditing) return;
+    onSendKeystroke(newMessage, false);
     
     // Reset idle timeout for emoji insertion
     if (idleTimeoutRef.current) {
@@ -266,7 +310,7 @@ export function CustomizationBar({
               <input
                 ref={inputRef}
                 type="text"
-                placeholder="Type to chat..."
+                placeholder={isEditing ? "Edit your message to chat..." : "Type to chat..."}
                 value={currentMessage}
                 onChange={handleInputChange}
                 onKeyDown={handleKeyDown}
@@ -284,12 +328,22 @@ export function CustomizationBar({
                 >
                   😊
                 </button>
-                <div className="text-xs text-gray-500">
-                  {currentMessage.trim() ? '15s' : '⏎'}
+                <div
+                  className={`text-xs ${isEditing ? 'text-amber-400' : 'text-gray-500'}`}
+                  title={isEditing ? 'Enter saves the edit, Esc cancels' : undefined}
+                >
+                  {isEditing ? 'edit' : currentMessage.trim() ? '15s' : '⏎'}
                 </div>
               </div>
             </div>
             
+            {deliveryError && (
+              <div className="absolute bottom-full left-0 mb-2 flex items-center gap-2 rounded-lg border border-red-600/50 bg-red-900/90 px-3 py-1 text-xs text-red-200">
+                <i className="fas fa-exclamation-triangle text-red-400" />
+                Not delivered: {deliveryError}
+              </div>
+            )}
+
             {/* Emoji Picker */}
             {showEmojiPicker && (
               <div 
@@ -1,22 +1,42 @@
 import { useEffect, useRef } from 'react';
 import type { Message } from '@shared/schema';
 
-interface MessageBubbleProps {
-  message: Message;
+interface MessageBubbleProps<T extends Message> {
+  message: T;
+  // Identity that survives id reconciliation; defaults to the message id
+  stableKey?: string;
   isTyping?: boolean;
   className?: string;
   userColor?: string;
   fontSize?: string;
-  onExpired?: (message: Message) => void;
+  retracted?: boolean;
+  undelivered?: string; // Server's reason for dropping it; shown struck through with a red outline
+  onExpired?: (message: T) => void;
+  onEdit?: (message: T) => void;
+  onRetract?: (message: T) => void;
 }
 
-export function MessageBubble({ message, isTyping = false, className = '', userColor, fontSize, onExpired }: MessageBubbleProps) {
+const RETRACT_FADE_MS = 600;
+
+// Source badge colours for relayed messages, keyed by RelayBadgeStyle
+const BADGE_CLASSES: Record<string, string> = {
+  slate: 'border-slate-300/30 bg-slate-800/70 text-slate-200 hover:border-slate-200/50 hover:bg-slate-700/80 hover:text-white',
+  orange: 'border-orange-400/40 bg-orange-900/70 text-orange-200 hover:bg-orange-800/80',
+  emerald: 'border-emerald-400/40 bg-emerald-900/70 text-emerald-200 hover:bg-emerald-800/80',
+  red: 'border-red-400/40 bg-red-900/70 text-red-200 hover:bg-red-800/80',
+  blue: 'border-blue-400/40 bg-blue-900/70 text-blue-200 hover:bg-blue-800/80',
+  purple: 'border-purple-400/40 bg-purple-900/70 text-purple-200 hover:bg-purple-800/80',
+};
+
+export function MessageBubble<T extends Message>({ message, stableKey, isTyping = false, className = '', userColor, fontSize, retracted = false, undelivered, onExpired, onEdit, onRetract }: MessageBubbleProps<T>) {
   const elementRef = useRef<HTMLDivElement>(null);
   const expiredNotifiedRef = useRef(false);
+  // Edits change the content in place, so a stable bubble must not restart its animation
+  const animationKey = stableKey ?? `${message.id}:${message.content}`;
   const getStableJitterRem = () => {
     const seedBase = isTyping
       ? `${message.username}:${message.room}:typing`
-      : `${message.id}:${message.username}:${message.content}`;
+      : `${animationKey}:${message.username}`;
     const hash = seedBase.split('').reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) >>> 0, 0);
     const normalized = (hash % 1001) / 1000; // 0..1
     return normalized - 0.5; // -0.5rem .. +0.5rem
@@ -72,7 +92,29 @@ export function MessageBubble({ message, isTyping = false, className = '', userC
         element.style.transform = 'translateX(0)';
       }
     }
-  }, [message.yPosition, message.xPosition, message.content, message.id, message.username, message.room, isTyping, onExpired]);
+  }, [message.yPosition, message.xPosition, animationKey, message.username, message.room, isTyping, onExpired]);
+
+  // Retracted messages fade out where they are, then leave like expired ones;
+  // a rejected retract flips back and fades the bubble in again
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+    if (!retracted) {
+      element.style.opacity = '';
+      return;
+    }
+
+    element.style.transition = `opacity ${RETRACT_FADE_MS}ms ease-out`;
+    element.style.opacity = '0';
+    const timeoutId = setTimeout(() => {
+      if (!expiredNotifiedRef.current) {
+        expiredNotifiedRef.current = true;
+        onExpired?.(message);
+      }
+    }, RETRACT_FADE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [retracted]);
 
   const getUserColor = (username: string, customColor?: string) => {
     if (customColor) {
@@ -100,6 +142,9 @@ export function MessageBubble({ message, isTyping = false, className = '', userC
     return colors[hash % colors.length];
   };
 
+  // HN messages stored before badge styles existed only carry their label
+  const badgeClasses = BADGE_CLASSES[message.sourceBadge ?? (message.sourceLabel === 'HN' ? 'slate' : '')];
+
   const getSizeClass = (size?: string) => {
     const sizeMap: Record<string, string> = {
       'sm': 'text-xs',
@@ -112,10 +157,13 @@ export function MessageBubble({ message, isTyping = false, className = '', userC
   return (
     <div
       ref={elementRef}
-      className={`absolute whitespace-nowrap ${className}`}
+      className={`group absolute whitespace-nowrap ${className}`}
       style={{ zIndex: 10 }}
     >
-      <div className={`inline-flex items-baseline gap-2 backdrop-blur-sm px-4 py-2 rounded-full border ${getUserColor(message.username, userColor)}`}>
+      <div
+        className={`inline-flex items-baseline gap-2 backdrop-blur-sm px-4 py-2 rounded-full border ${getUserColor(message.username, userColor)} ${undelivered ? 'ring-2 ring-red-500 opacity-70' : ''}`}
+        title={undelivered ? `Not delivered: ${undelivered}` : undefined}
+      >
         <span className={`font-medium ${getSizeClass(fontSize)}`}>
           {message.username}
         </span>
@@ -129,7 +177,7 @@ export function MessageBubble({ message, isTyping = false, className = '', userC
             {message.content}
           </a>
         ) : (
-          <span className={`font-mono ${getSizeClass(fontSize)}`}>
+          <span className={`font-mono ${getSizeClass(fontSize)} ${undelivered ? 'line-through' : ''}`}>
             {message.content}
           </span>
         )}
@@ -139,8 +187,8 @@ export function MessageBubble({ message, isTyping = false, className = '', userC
             target="_blank"
             rel="noopener noreferrer"
             className={
-              message.sourceLabel === 'HN'
-                ? 'ml-1 inline-flex items-center rounded-full border border-slate-300/30 bg-slate-800/70 px-2 py-0.5 text-[10px] font-semibold tracking-wide text-slate-200 no-underline transition-colors hover:border-slate-200/50 hover:bg-slate-700/80 hover:text-white'
+              badgeClasses
+                ? `ml-1 inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] font-semibold tracking-wide no-underline transition-colors ${badgeClasses}`
                 : `ml-1 inline-flex items-center rounded-full border border-current/30 px-2 py-0.5 text-[10px] font-semibold no-underline opacity-85 hover:opacity-100`
             }
             aria-label={`Source: ${message.sourceLabel}`}
@@ -148,9 +196,36 @@ export function MessageBubble({ message, isTyping = false, className = '', userC
             {message.sourceLabel}
           </a>
         )}
+        {message.editedAt && !isTyping && (
+          <span className="text-[10px] italic opacity-60">edited</span>
+        )}
         {isTyping && (
           <span className="animate-pulse">|</span>
         )}
+        {(onEdit || onRetract) && !isTyping && (
+          <span className="ml-1 hidden items-center gap-1 group-hover:inline-flex">
+            {onEdit && (
+              <button
+                type="button"
+                onClick={() => onEdit(message)}
+                className="rounded px-1 text-[10px] opacity-70 hover:bg-white/10 hover:opacity-100"
+                aria-label="Edit message"
+              >
+                ✎
+              </button>
+            )}
+            {onRetract && (
+              <button
+                type="button"
+                onClick={() => onRetract(message)}
+                className="rounded px-1 text-[10px] opacity-70 hover:bg-white/10 hover:opacity-100"
+                aria-label="Retract message"
+              >
+                ✕
+              </button>
+            )}
+          </span>
+        )}
       </div>
     </div>
   );
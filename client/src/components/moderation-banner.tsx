@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { format } from 'date-fns';
+
+interface ModerationBannerProps {
+  mutedUntil: number | null; // epoch ms
+  removedReason: string | null; // Close reason after a kick or ban
+  onMuteExpired: () => void;
+}
+
+// Persistent notice for moderator actions against the current user
+export function ModerationBanner({ mutedUntil, removedReason, onMuteExpired }: ModerationBannerProps) {
+  // Clear the mute banner on its own once the mute runs out
+  useEffect(() => {
+    if (!mutedUntil) return;
+    const remaining = mutedUntil - Date.now();
+    if (remaining <= 0) {
+      onMuteExpired();
+      return;
+    }
+    const timeout = setTimeout(onMuteExpired, remaining);
+    return () => clearTimeout(timeout);
+  }, [mutedUntil, onMuteExpired]);
+
+  if (!removedReason && !mutedUntil) return null;
+
+  return (
+    <div className="absolute top-20 left-1/2 transform -translate-x-1/2 z-50 backdrop-blur-md px-6 py-4 rounded-xl text-sm border shadow-lg bg-amber-900/95 border-amber-600/50">
+      <div className="flex items-center gap-3">
+        <i className={`fas ${removedReason ? 'fa-user-slash' : 'fa-volume-mute'} text-amber-400`} />
+        <span className="text-amber-100">
+          {removedReason
+            ? `${removedReason}. Reload the page to try again.`
+            : `A moderator muted you until ${format(mutedUntil!, 'HH:mm')}. Your messages won't be sent.`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { PresenceUser } from '@shared/schema';
+
+interface PresenceRosterProps {
+  users: PresenceUser[];
+  currentUser?: string;
+}
+
+const colorDotMap: Record<string, string> = {
+  'blue': 'bg-blue-500',
+  'emerald': 'bg-emerald-500',
+  'purple': 'bg-purple-500',
+  'orange': 'bg-orange-500',
+  'cyan': 'bg-cyan-500',
+  'pink': 'bg-pink-500',
+};
+
+export function PresenceRoster({ users, currentUser }: PresenceRosterProps) {
+  const [open, setOpen] = useState(false);
+  const typingCount = users.filter((user) => user.isTyping).length;
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="absolute top-16 left-4 z-50 min-w-40 bg-gray-800/90 backdrop-blur-sm rounded-xl border border-gray-700"
+    >
+      <CollapsibleTrigger className="w-full flex items-center justify-between gap-3 px-3 py-2 text-xs text-gray-300 font-medium">
+        <span>
+          In this room
+          {typingCount > 0 && (
+            <span className="ml-2 text-gray-500">{typingCount} typing</span>
+          )}
+        </span>
+        <i className={`fas fa-chevron-${open ? 'up' : 'down'} text-gray-500`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="px-3 pb-2 space-y-1 max-h-64 overflow-y-auto">
+          {users.length === 0 && (
+            <li className="text-xs text-gray-500">Nobody here yet</li>
+          )}
+          {users.map((user) => (
+            <li key={user.username} className="flex items-center gap-2 text-xs">
+              <span className={`w-2 h-2 rounded-full ${colorDotMap[user.userColor || ''] || 'bg-gray-500'}`} />
+              <span className={`${user.username === currentUser ? 'text-white font-medium' : 'text-gray-300'} ${user.away ? 'opacity-50' : ''}`}>
+                {user.username}
+              </span>
+              {user.isTyping ? (
+                <span className="text-gray-500 animate-pulse">typing…</span>
+              ) : user.away && (
+                <span className="text-gray-500">away</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { apiRequest } from '@/lib/queryClient';
+
+interface PassphrasePromptProps {
+  error: string;
+  onSubmit: (passphrase: string) => void;
+}
+
+// Shown in place of the name banner when a private room refuses the join
+export function PassphrasePrompt({ error, onSubmit }: PassphrasePromptProps) {
+  const [value, setValue] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (value) {
+      onSubmit(value);
+      setValue('');
+    }
+  };
+
+  return (
+    <div className="absolute top-8 left-1/2 transform -translate-x-1/2 z-50 backdrop-blur-md px-6 py-4 rounded-xl text-sm border shadow-lg bg-red-900/95 border-red-600/50">
+      <div className="flex items-center gap-3 mb-3">
+        <i className="fas fa-lock text-red-400" />
+        <span className="text-red-200">{error}</span>
+      </div>
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          type="password"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="Room passphrase"
+          autoFocus
+          className="flex-1 bg-gray-800 border border-red-600/50 rounded-lg px-3 py-1.5 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+        <button
+          type="submit"
+          className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-500 text-white font-medium transition-colors"
+        >
+          Enter
+        </button>
+      </form>
+    </div>
+  );
+}
+
+interface RoomLockControlProps {
+  room: string;
+  passphrase?: string; // Current passphrase when this client unlocked the room
+  onChange: (passphrase: string | undefined) => void;
+}
+
+// Lets whoever holds the passphrase re-key or open the room; locking a public one takes a room moderator
+export function RoomLockControl({ room, passphrase, onChange }: RoomLockControlProps) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+
+  const update = async (next: string | null) => {
+    try {
+      setError('');
+      await apiRequest(
+        'PUT',
+        `/api/rooms/${encodeURIComponent(room)}/passphrase`,
+        { passphrase: next },
+        passphrase ? { 'x-room-passphrase': passphrase } : {},
+      );
+      onChange(next ?? undefined);
+      setValue('');
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message.replace(/^\d+: /, '') : 'Failed to update passphrase');
+    }
+  };
+
+  return (
+    <div className="absolute top-16 right-4 z-50 flex flex-col items-end gap-2">
+      <button
+        type="button"
+        title={passphrase ? 'Private room' : 'Make this room private'}
+        onClick={() => setOpen((prev) => !prev)}
+        className="bg-gray-800/90 hover:bg-gray-700/90 backdrop-blur-sm px-3 py-2 rounded-full border border-gray-700 text-xs text-gray-300 transition-colors"
+      >
+        <i className={`fas ${passphrase ? 'fa-lock text-amber-400' : 'fa-lock-open text-gray-400'}`} />
+      </button>
+      {open && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (value.length >= 4) update(value);
+          }}
+          className="w-64 bg-gray-800/95 backdrop-blur-sm rounded-xl border border-gray-700 p-3 space-y-2 text-xs"
+        >
+          <input
+            type="password"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={passphrase ? 'New passphrase' : 'Passphrase (4+ characters)'}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          {error && <div className="text-red-400">{error}</div>}
+          <div className="flex justify-end gap-2">
+            {passphrase && (
+              <button
+                type="button"
+                onClick={() => update(null)}
+                className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+              >
+                Make public
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={value.length < 4}
+              className="px-3 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-medium transition-colors"
+            >
+              {passphrase ? 'Change' : 'Lock room'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
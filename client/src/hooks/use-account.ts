@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import type { Account, AccountCredentials } from '@shared/schema';
+
+const ACCOUNT_QUERY_KEY = ['/api/auth/me'];
+
+// The signed-in account (null for guests) plus login/register/logout actions
+export function useAccount() {
+  const { data: account = null } = useQuery<Account | null>({
+    queryKey: ACCOUNT_QUERY_KEY,
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const signIn = useCallback(async (mode: 'login' | 'register', credentials: AccountCredentials) => {
+    const res = await apiRequest('POST', `/api/auth/${mode}`, credentials);
+    const signedIn = await res.json() as Account;
+    queryClient.setQueryData(ACCOUNT_QUERY_KEY, signedIn);
+    return signedIn;
+  }, []);
+
+  const logout = useCallback(async () => {
+    await apiRequest('POST', '/api/auth/logout');
+    queryClient.setQueryData(ACCOUNT_QUERY_KEY, null);
+  }, []);
+
+  return { account, signIn, logout };
+}
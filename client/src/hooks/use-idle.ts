@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const IDLE_CHECK_INTERVAL = 5000;
+
+// True once the user hasn't touched the page for `timeoutMs`; any input clears it
+export function useIdle(timeoutMs: number) {
+  const [idle, setIdle] = useState(false);
+
+  useEffect(() => {
+    let lastActivity = Date.now();
+    const onActivity = () => {
+      lastActivity = Date.now();
+      setIdle(false);
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') onActivity();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity >= timeoutMs) setIdle(true);
+    }, IDLE_CHECK_INTERVAL);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity));
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [timeoutMs]);
+
+  return idle;
+}
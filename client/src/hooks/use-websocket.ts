@@ -1,5 +1,38 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import type { WSMessage } from '@shared/schema';
+import {
+  WS_CLOSE_BANNED,
+  WS_CLOSE_KICKED,
+  WS_CLOSE_TOKEN_REJECTED,
+  WS_CAPABILITIES,
+  WS_PROTOCOL_VERSION,
+  type PresenceUser,
+  type WSMessage,
+} from '@shared/schema';
+import { applyTextEdit, decodeServerFrame, diffText, encodeClientKeystroke, type TypistIntern } from '@shared/keystroke-codec';
+import { apiRequest } from '@/lib/queryClient';
+
+const SOCKET_TOKEN_KEY = 'whirledtalk-socket-token';
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+const STALLED_AFTER_PINGS = 2; // Unanswered ping rounds before the socket is given up on
+
+// Exponential backoff with jitter, so a restarted server isn't hit by every client at once
+const reconnectDelay = (attempt: number) => {
+  const ceiling = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+// Mints the signed token the /ws upgrade requires; handing back the previous one keeps our session id
+const fetchSocketToken = async (username: string, room: string): Promise<string> => {
+  const res = await apiRequest('POST', '/api/ws-token', {
+    username,
+    room,
+    previousToken: localStorage.getItem(SOCKET_TOKEN_KEY) || undefined,
+  });
+  const { token } = await res.json() as { token: string };
+  localStorage.setItem(SOCKET_TOKEN_KEY, token);
+  return token;
+};
 
 // Generate browser fingerprint for session management
 const generateBrowserFingerprint = (): string => {
@@ -31,85 +64,257 @@ const generateBrowserFingerprint = (): string => {
 interface UseWebSocketProps {
   room: string;
   username: string;
+  userColor?: string;
+  passphrase?: string; // For private rooms; changing it rejoins
+  account?: string; // Signed-in username; changing it reconnects so the upgrade carries the new login cookie
+  away?: boolean; // User has gone idle; sent with join and whenever it changes
   onMessage: (message: WSMessage) => void;
   onNameError?: (error: string) => void;
+  onAccessDenied?: (error: string) => void;
+  onRemoved?: (reason: string) => void; // Kicked or banned by a moderator; no reconnect follows
 }
 
-export function useWebSocket({ room, username, onMessage, onNameError }: UseWebSocketProps) {
+// Applies a presenceDiff frame to the current roster
+const applyPresenceDiff = (roster: PresenceUser[], message: WSMessage): PresenceUser[] => {
+  const user = message.presenceUser;
+  if (!user) return roster;
+
+  const others = roster.filter((entry) => entry.username !== user.username);
+  if (message.presenceAction === 'leave') return others;
+  return [...others, user].sort((a, b) => a.username.localeCompare(b.username));
+};
+
+export function useWebSocket({ room, username, userColor, passphrase, account, away = false, onMessage, onNameError, onAccessDenied, onRemoved }: UseWebSocketProps) {
   const [isConnected, setIsConnected] = useState(false);
-  const [connectedUsers, setConnectedUsers] = useState(0);
+  const [presence, setPresence] = useState<PresenceUser[]>([]);
+  const [latencyMs, setLatencyMs] = useState<number | null>(null); // Round trip of the last answered ping
+  const [isStalled, setIsStalled] = useState(false); // A ping has gone unanswered for a full interval
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
-  const sessionIdRef = useRef<string>('');
+  const connectionIdRef = useRef(0); // Bumped on teardown so stale sockets don't reconnect
+  const reconnectAttemptRef = useRef(0); // Failed attempts since the last successful open
+  const tokenRejectionsRef = useRef(0); // Rejected tokens since the server last accepted a join
+  // Last room sequence number seen, and whose numbering it is, so a rejoin can ask for missed frames
+  const replayRef = useRef<{ room: string; epoch: string; seq: number } | null>(null);
   const browserFingerprintRef = useRef<string>('');
+  // Read at join time only, so color changes don't force a reconnect
+  const userColorRef = useRef(userColor);
+  userColorRef.current = userColor;
+  const awayRef = useRef(away);
+  awayRef.current = away;
+  const heartbeatRef = useRef<NodeJS.Timeout>();
+  const pendingPingRef = useRef<{ nonce: string; sentAt: number } | null>(null);
+  // Binary keystrokes, once the server agrees to them: typists it has interned, their current
+  // text, and the text/style our last keystroke left the server with (null sends the next in full)
+  const binaryKeystrokesRef = useRef(false);
+  const typistsRef = useRef(new Map<number, TypistIntern>());
+  const typingTextsRef = useRef(new Map<string, string>());
+  const sentTypingRef = useRef<{ content: string; style: string } | null>(null);
+
+  const stopHeartbeat = useCallback(() => {
+    clearInterval(heartbeatRef.current);
+    heartbeatRef.current = undefined;
+    pendingPingRef.current = null;
+    setLatencyMs(null);
+    setIsStalled(false);
+  }, []);
   
-  // Generate session ID and browser fingerprint on first load
+  // Generate browser fingerprint on first load
   useEffect(() => {
-    if (!sessionIdRef.current) {
-      sessionIdRef.current = localStorage.getItem('whirledtalk-session-id') || 
-        `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      localStorage.setItem('whirledtalk-session-id', sessionIdRef.current);
-    }
-    
     if (!browserFingerprintRef.current) {
       browserFingerprintRef.current = generateBrowserFingerprint();
     }
   }, []);
 
-  const connect = useCallback(() => {
+  const connect = useCallback(async () => {
+    const connectionId = connectionIdRef.current;
+    const scheduleReconnect = (delay: number) => {
+      reconnectTimeoutRef.current = setTimeout(() => {
+        connect();
+      }, delay);
+    };
+
+    // Binary frames are keystroke edits (or the typist table they refer to), expanded back into
+    // the keystroke frames the rest of the app expects
+    const handleBinaryFrame = (bytes: Uint8Array) => {
+      const frame = decodeServerFrame(bytes);
+      if (!frame) return;
+      if (frame.op === 'intern') {
+        typistsRef.current.set(frame.id, frame);
+        return;
+      }
+
+      const typist = typistsRef.current.get(frame.typist);
+      if (!typist) return;
+      const content = frame.reset
+        ? frame.insert
+        : applyTextEdit(typingTextsRef.current.get(typist.username) ?? '', frame);
+      if (content === null) {
+        console.warn(`Dropped a keystroke edit from ${typist.username} that didn't fit`);
+        return;
+      }
+      typingTextsRef.current.set(typist.username, content);
+      onMessage({
+        type: 'keystroke',
+        username: typist.username,
+        room,
+        content,
+        isTyping: frame.isTyping,
+        yPosition: frame.yPosition,
+        userColor: typist.userColor,
+        fontSize: typist.fontSize,
+      });
+    };
+
+    // Pings at the interval the server asks for; a quiet room and a dead link look alike otherwise
+    const startHeartbeat = (socket: WebSocket, intervalMs: number) => {
+      clearInterval(heartbeatRef.current);
+      pendingPingRef.current = null;
+      const ping = () => {
+        const pending = pendingPingRef.current;
+        if (pending) {
+          const waited = performance.now() - pending.sentAt;
+          if (waited > intervalMs * STALLED_AFTER_PINGS) {
+            console.log('WebSocket stalled, reconnecting');
+            socket.close();
+            return;
+          }
+          setIsStalled(waited >= intervalMs);
+          return;
+        }
+        const nonce = Date.now().toString(36);
+        pendingPingRef.current = { nonce, sentAt: performance.now() };
+        socket.send(JSON.stringify({ type: 'ping', username, room, nonce }));
+      };
+      heartbeatRef.current = setInterval(ping, intervalMs);
+      ping();
+    };
+
     try {
+      const token = await fetchSocketToken(username, room);
+      if (connectionId !== connectionIdRef.current) return;
+
       const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      const wsUrl = `${protocol}//${window.location.host}/ws?room=${encodeURIComponent(room)}`;
+      const wsUrl = `${protocol}//${window.location.host}/ws?room=${encodeURIComponent(room)}&token=${encodeURIComponent(token)}`;
       
       wsRef.current = new WebSocket(wsUrl);
+      wsRef.current.binaryType = 'arraybuffer';
+      binaryKeystrokesRef.current = false;
+      sentTypingRef.current = null;
 
       wsRef.current.onopen = () => {
         console.log('WebSocket connected');
         setIsConnected(true);
+        reconnectAttemptRef.current = 0;
         
-        // Send join message with session info
+        // Send join message with session info, plus where we left off when this is a reconnect
+        const resume = replayRef.current?.room === room ? replayRef.current : null;
         if (wsRef.current) {
+          wsRef.current.send(JSON.stringify({
+            type: 'hello',
+            version: WS_PROTOCOL_VERSION,
+            capabilities: WS_CAPABILITIES,
+            client: 'whirledtalk-web',
+          }));
           wsRef.current.send(JSON.stringify({
             type: 'join',
             username,
             room,
-            sessionId: sessionIdRef.current,
+            userColor: userColorRef.current,
             browserFingerprint: browserFingerprintRef.current,
+            passphrase,
+            away: awayRef.current,
+            lastSeq: resume?.seq,
+            replayEpoch: resume?.epoch,
           }));
         }
       };
 
       wsRef.current.onmessage = (event) => {
         try {
+          if (event.data instanceof ArrayBuffer) {
+            handleBinaryFrame(new Uint8Array(event.data));
+            return;
+          }
+
           const message = JSON.parse(event.data) as WSMessage;
+
+          // The server couldn't read one of our frames; nothing to retry, but worth knowing about
+          if (message.type === 'error') {
+            console.warn(`WebSocket protocol error (${message.code}): ${message.error}`);
+            if (message.frameType === 'keystroke') sentTypingRef.current = null;
+            return;
+          }
+          if (message.type === 'welcome') {
+            binaryKeystrokesRef.current = Boolean(message.capabilities?.includes('binaryKeystrokes'));
+            return;
+          }
+
+          if (message.type === 'pong') {
+            const pending = pendingPingRef.current;
+            if (pending && pending.nonce === message.nonce) {
+              setLatencyMs(Math.round(performance.now() - pending.sentAt));
+              setIsStalled(false);
+              pendingPingRef.current = null;
+            }
+            return;
+          }
           
           // Handle name collision errors
           if (message.type === 'nameError' && onNameError) {
             onNameError(message.error || 'Username is already taken');
             return;
           }
+
+          // Private room refused the join (missing or wrong passphrase)
+          if (message.type === 'accessDenied') {
+            onAccessDenied?.(message.error || 'This room is private');
+            return;
+          }
           
-          onMessage(message);
-          
-          // Update connected users count (simplified)
-          if (message.type === 'join') {
-            setConnectedUsers(prev => prev + 1);
-          } else if (message.type === 'leave') {
-            setConnectedUsers(prev => Math.max(0, prev - 1));
+          // The presence frame answering our join restarts the count; numbered broadcasts advance it
+          if (message.type === 'presence' && message.replayEpoch) {
+            tokenRejectionsRef.current = 0;
+            replayRef.current = { room: message.room, epoch: message.replayEpoch, seq: message.seq ?? 0 };
+            if (message.heartbeatMs && wsRef.current) startHeartbeat(wsRef.current, message.heartbeatMs);
+          } else if (message.seq !== undefined && replayRef.current?.room === message.room) {
+            replayRef.current.seq = Math.max(replayRef.current.seq, message.seq);
           }
+
+          // The server sends a full roster on join and diffs afterwards
+          if (message.type === 'presence') {
+            setPresence(message.users || []);
+          } else if (message.type === 'presenceDiff') {
+            setPresence(prev => applyPresenceDiff(prev, message));
+          }
+
+          onMessage(message);
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
         }
       };
 
-      wsRef.current.onclose = () => {
+      wsRef.current.onclose = (event) => {
         console.log('WebSocket disconnected');
         setIsConnected(false);
+        setPresence([]);
+        if (connectionId !== connectionIdRef.current) return;
+        stopHeartbeat();
+
+        if (event.code === WS_CLOSE_KICKED || event.code === WS_CLOSE_BANNED) {
+          onRemoved?.(event.reason || 'Removed by a moderator');
+          return;
+        }
         
-        // Attempt to reconnect after 3 seconds
-        reconnectTimeoutRef.current = setTimeout(() => {
-          connect();
-        }, 3000);
+        // A rejected token usually just needs a fresh one, so that retry is immediate. The socket
+        // opened before the server closed it, which resets the attempt count, so rejections are
+        // counted apart and back off like failed connects if the server keeps refusing.
+        if (event.code === WS_CLOSE_TOKEN_REJECTED) {
+          const rejections = tokenRejectionsRef.current++;
+          scheduleReconnect(rejections === 0 ? 0 : reconnectDelay(rejections - 1));
+          return;
+        }
+        scheduleReconnect(reconnectDelay(reconnectAttemptRef.current++));
       };
 
       wsRef.current.onerror = (error) => {
@@ -119,11 +324,32 @@ export function useWebSocket({ room, username, onMessage, onNameError }: UseWebS
     } catch (error) {
       console.error('Failed to create WebSocket connection:', error);
       setIsConnected(false);
+      if (connectionId === connectionIdRef.current) {
+        scheduleReconnect(reconnectDelay(reconnectAttemptRef.current++));
+      }
     }
-  }, [room, username, onMessage]);
+  }, [room, username, passphrase, account, onMessage, stopHeartbeat]);
 
   const sendMessage = useCallback((message: Partial<WSMessage>) => {
     if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+      // Keystrokes go as edits against what the server last had from us; a style change
+      // (which the edits can't carry) or a sent message means the next one goes in full
+      if (message.type === 'keystroke' && message.content !== undefined && binaryKeystrokesRef.current) {
+        const style = `${message.userColor ?? ''}|${message.fontSize ?? ''}`;
+        const sent = sentTypingRef.current;
+        sentTypingRef.current = { content: message.content, style };
+        if (sent && sent.style === style) {
+          wsRef.current.send(encodeClientKeystroke({
+            ...diffText(sent.content, message.content),
+            isTyping: Boolean(message.isTyping),
+            yPosition: message.yPosition,
+          }));
+          return;
+        }
+      } else if (message.type === 'newMessage') {
+        sentTypingRef.current = null;
+      }
+
       wsRef.current.send(JSON.stringify({
         username,
         room,
@@ -132,13 +358,20 @@ export function useWebSocket({ room, username, onMessage, onNameError }: UseWebS
     }
   }, [username, room]);
 
+  // Going idle (or coming back) updates our entry in everyone's roster
+  useEffect(() => {
+    sendMessage({ type: 'away', away });
+  }, [away, sendMessage]);
+
   useEffect(() => {
     connect();
     
     return () => {
+      connectionIdRef.current++;
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
+      stopHeartbeat();
       
       if (wsRef.current) {
         // Send leave message before closing
@@ -152,11 +385,14 @@ export function useWebSocket({ room, username, onMessage, onNameError }: UseWebS
         wsRef.current.close();
       }
     };
-  }, [connect, username, room]);
+  }, [connect, username, room, stopHeartbeat]);
 
   return {
     isConnected,
-    connectedUsers,
+    connectedUsers: presence.length,
+    presence,
+    latencyMs,
+    isStalled,
     sendMessage,
   };
 }
@@ -0,0 +1,43 @@
+import type { Message, WSMessage } from '@shared/schema';
+
+// A message as rendered in the viewport. `clientKey` stays the same when the
+// optimistic bubble is reconciled with the server record, so React keeps the
+// element (and its running animation); `shownAt` is the local time the bubble
+// started moving, independent of any clock skew against the server.
+// `retracted` bubbles fade out before being removed; `undelivered` holds the
+// server's reason when it dropped our frame instead of relaying it. `beforeEdit`
+// is what our last edit replaced, put back if the server refuses that edit.
+export type DisplayMessage = Message & {
+  clientKey: string;
+  shownAt: number;
+  retracted?: boolean;
+  undelivered?: string;
+  beforeEdit?: Pick<Message, 'content' | 'editedAt'>;
+};
+
+export const createNonce = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const serverKey = (id: number) => `server-${id}`;
+
+// Builds the on-screen message for a newMessage frame from another connection
+export const fromNewMessageFrame = (frame: WSMessage, content: string, yPosition: number): DisplayMessage => ({
+  id: frame.id ?? -Date.now(),
+  clientKey: frame.id !== undefined ? serverKey(frame.id) : createNonce(),
+  shownAt: Date.now(),
+  username: frame.username,
+  content,
+  room: frame.room,
+  isTyping: false,
+  timestamp: frame.timestamp ? new Date(frame.timestamp) : new Date(),
+  xPosition: frame.xPosition ?? 0,
+  yPosition,
+  userColor: frame.userColor || null,
+  fontSize: frame.fontSize || null,
+  sourceUrl: frame.sourceUrl || null,
+  sourceLabel: frame.sourceLabel || null,
+  sourceBadge: frame.sourceBadge || null,
+  storyUrl: frame.storyUrl || null,
+  storyLabel: frame.storyLabel || null,
+  editedAt: null,
+});
@@ -1,26 +1,47 @@
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { ConnectionStatus } from '@/components/connection-status';
 import { RoomIndicator } from '@/components/room-indicator';
+import { PresenceRoster } from '@/components/presence-roster';
+import { PassphrasePrompt, RoomLockControl } from '@/components/room-access';
+import { AccountMenu } from '@/components/account-menu';
+import { ModerationBanner } from '@/components/moderation-banner';
 import { ChatViewport } from '@/components/chat-viewport';
 import { CustomizationBar } from '@/components/customization-bar';
 import { useWebSocket } from '@/hooks/use-websocket';
+import { useIdle } from '@/hooks/use-idle';
 import { useQueryParams } from '@/hooks/use-query-params';
-import type { Message, WSMessage } from '@shared/schema';
+import type { WSMessage } from '@shared/schema';
 import { useStyleSync } from '@/hooks/use-style-sync';
+import { useAccount } from '@/hooks/use-account';
+import { createNonce, fromNewMessageFrame, type DisplayMessage } from '@/lib/display-message';
+
+const AWAY_AFTER_MS = 2 * 60 * 1000; // Idle time before the roster shows us as away
+const USERNAME_SETTLE_MS = 600; // Rejoining on every keystroke in the name field would drain the join rate limit
 
 export default function Chat() {
   const { params, getThemeClasses } = useQueryParams();
   const themeClasses = getThemeClasses();
+  const { account } = useAccount();
   
   const [username, setUsername] = useState(() => {
     const saved = localStorage.getItem('whirledtalk-username');
     return saved || `guest_${Math.random().toString(36).substr(2, 6)}`;
   });
   
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<DisplayMessage[]>([]);
   const [typingMessages, setTypingMessages] = useState(new Map<string, { content: string; yPosition: number; username: string; userColor?: string; fontSize?: string }>());
   const [occupiedPositions, setOccupiedPositions] = useState<Array<{ yPosition: number; timestamp: number; height: number }>>([]);
+  const [editingKey, setEditingKey] = useState<string | null>(null); // clientKey of the bubble being edited
   const [nameError, setNameError] = useState<string>('');
+  const [accessError, setAccessError] = useState<string>(''); // Set while a private room refuses us
+  const [mutedUntil, setMutedUntil] = useState<number | null>(null);
+  const [removedReason, setRemovedReason] = useState<string | null>(null);
+  const [deliveryError, setDeliveryError] = useState<string>(''); // Why the server dropped our last frame
+  const deliveryErrorTimeoutRef = useRef<NodeJS.Timeout>();
+  const passphraseKey = `whirledtalk-passphrase:${params.room}`;
+  const [roomPassphrase, setRoomPassphrase] = useState<string | undefined>(
+    () => sessionStorage.getItem(passphraseKey) || undefined
+  );
   const [validUsername, setValidUsername] = useState(username); // Last known valid username
   const [pendingUsername, setPendingUsername] = useState<string>(''); // Username being attempted
   const [usernameStatus, setUsernameStatus] = useState<'valid' | 'pending' | 'rejected'>('valid');
@@ -188,16 +209,8 @@ export default function Chat() {
     return Math.max(yMin, Math.min(yMax, topCandidates[0]?.yPosition ?? (yMin + yMax) / 2));
   }, [occupiedPositions, typingMessages]);
 
-  const handleMessageExpired = useCallback((expiredMessage: Message) => {
-    const expiredTimestamp = new Date(expiredMessage.timestamp).getTime();
-    setMessages((prev) => prev.filter((message) => {
-      return !(
-        message.id === expiredMessage.id &&
-        message.username === expiredMessage.username &&
-        message.content === expiredMessage.content &&
-        new Date(message.timestamp).getTime() === expiredTimestamp
-      );
-    }));
+  const handleMessageExpired = useCallback((expiredMessage: DisplayMessage) => {
+    setMessages((prev) => prev.filter((message) => message.clientKey !== expiredMessage.clientKey));
   }, []);
 
   // Fallback sweeper in case animation finish events are dropped by the browser.
@@ -206,15 +219,13 @@ export default function Chat() {
       const now = Date.now();
       setMessages((prev) => {
         const active = prev.filter((message) => {
-          const startedAt = new Date(message.timestamp).getTime();
-          if (!Number.isFinite(startedAt)) return true;
-          const expiresAt = startedAt + getTravelDurationMs(message.content || '') + 4000;
+          const expiresAt = message.shownAt + getTravelDurationMs(message.content || '') + 4000;
           return now < expiresAt;
         });
 
         if (active.length > 450) {
           return [...active]
-            .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+            .sort((a, b) => a.shownAt - b.shownAt)
             .slice(-450);
         }
 
@@ -247,8 +258,9 @@ export default function Chat() {
         }
         break;
         
-      case 'newMessage':
-        if (wsMessage.content) {
+      case 'newMessage': {
+        const content = wsMessage.content;
+        if (content) {
           // Get the typing message position to maintain it
           const typingMessage = typingMessages.get(wsMessage.username);
           const yPosition = wsMessage.yPosition || typingMessage?.yPosition || findOptimalPosition();
@@ -267,24 +279,77 @@ export default function Chat() {
             return newMap;
           });
           
-          setMessages(prev => [...prev, {
-            id: Date.now(), // Temporary ID for display
-            username: wsMessage.username,
-            content: wsMessage.content,
-            room: wsMessage.room,
-            isTyping: false,
-            timestamp: new Date(),
-            xPosition: wsMessage.xPosition ?? 0,
-            yPosition,
-            userColor: wsMessage.userColor, // Include style from sender
-            fontSize: wsMessage.fontSize,   // Include style from sender
-            sourceUrl: wsMessage.sourceUrl || null,
-            sourceLabel: wsMessage.sourceLabel || null,
-            storyUrl: wsMessage.storyUrl || null,
-            storyLabel: wsMessage.storyLabel || null,
-          }]);
+          setMessages(prev => {
+            // Server ids make repeated deliveries (e.g. another tab's echo) detectable
+            if (wsMessage.id !== undefined && prev.some((message) => message.id === wsMessage.id)) {
+              return prev;
+            }
+            // Our own message replayed after its ack was lost: settle the optimistic bubble like an ack would
+            const { nonce, id, timestamp } = wsMessage;
+            if (nonce && id !== undefined && prev.some((message) => message.clientKey === nonce)) {
+              return prev.map((message) => message.clientKey === nonce
+                ? { ...message, id, content, timestamp: timestamp ? new Date(timestamp) : message.timestamp }
+                : message);
+            }
+            return [...prev, fromNewMessageFrame(wsMessage, content, yPosition)];
+          });
+        }
+        break;
+      }
+
+      case 'editMessage':
+        if (wsMessage.id !== undefined && wsMessage.content) {
+          const { id, content, editedAt } = wsMessage;
+          setMessages(prev => prev.map((message) => message.id === id
+            ? { ...message, content, editedAt: editedAt ? new Date(editedAt) : new Date() }
+            : message));
+        }
+        break;
+
+      case 'deleteMessage':
+        if (wsMessage.id !== undefined) {
+          const { id } = wsMessage;
+          setMessages(prev => prev.map((message) => message.id === id ? { ...message, retracted: true } : message));
         }
         break;
+
+      case 'ack':
+        // Adopt the stored id/timestamp (and possibly masked content) for our optimistic bubble, keeping its clientKey
+        if (wsMessage.nonce && wsMessage.id !== undefined) {
+          const { nonce, id, timestamp, content } = wsMessage;
+          setMessages(prev => prev.map((message) => message.clientKey === nonce
+            ? { ...message, id, content: content ?? message.content, timestamp: timestamp ? new Date(timestamp) : message.timestamp }
+            : message));
+        }
+        break;
+        
+      case 'rejected': {
+        // Our optimistic bubble never reached anyone: match it by nonce (new messages) or id (edits, retractions)
+        const { nonce, id } = wsMessage;
+        const reason = wsMessage.error || 'Message was not delivered';
+        if (nonce || id !== undefined) {
+          setMessages(prev => prev.map((message) => {
+            if (!(nonce ? message.clientKey === nonce : message.id === id)) return message;
+            // A refused edit leaves the message as everyone else still sees it
+            if (!nonce && !message.retracted && message.beforeEdit) {
+              return { ...message, ...message.beforeEdit, beforeEdit: undefined };
+            }
+            return { ...message, retracted: false, undelivered: reason };
+          }));
+        }
+        setDeliveryError(reason);
+        if (deliveryErrorTimeoutRef.current) {
+          clearTimeout(deliveryErrorTimeoutRef.current);
+        }
+        deliveryErrorTimeoutRef.current = setTimeout(() => setDeliveryError(''), 5000);
+        break;
+      }
+
+      case 'moderation':
+        setMutedUntil(wsMessage.moderationAction === 'mute' && wsMessage.mutedUntil
+          ? new Date(wsMessage.mutedUntil).getTime()
+          : null);
+        break;
         
       case 'join':
         // Username successfully validated - check if this is our join
@@ -327,15 +392,44 @@ export default function Chat() {
     }
   }, [username, pendingUsername]);
 
-  const { isConnected, connectedUsers, sendMessage } = useWebSocket({
+  const clearMute = useCallback(() => setMutedUntil(null), []);
+
+  // Remembered per tab so reloads rejoin; a wrong passphrase brings the prompt back
+  const handlePassphraseChange = useCallback((next: string | undefined) => {
+    if (next) {
+      sessionStorage.setItem(passphraseKey, next);
+    } else {
+      sessionStorage.removeItem(passphraseKey);
+    }
+    setRoomPassphrase(next);
+    setAccessError('');
+  }, [passphraseKey]);
+
+  const away = useIdle(AWAY_AFTER_MS);
+
+  // The socket follows the name field once typing pauses
+  const [settledUsername, setSettledUsername] = useState(username);
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setSettledUsername(username), USERNAME_SETTLE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [username]);
+
+  const { isConnected, connectedUsers, presence, latencyMs, isStalled, sendMessage } = useWebSocket({
     room: params.room,
-    username,
+    // The socket token is scoped to one name, so a rejected name keeps the last valid one connected
+    username: usernameStatus === 'rejected' ? validUsername : settledUsername,
+    userColor: textColor,
+    passphrase: roomPassphrase,
+    account: account?.username,
+    away,
     onMessage: handleWebSocketMessage,
+    onAccessDenied: setAccessError,
+    onRemoved: setRemovedReason,
     onNameError: (error) => {
       console.log('Name error received:', error);
       setNameError(error);
       setUsernameStatus('rejected');
-      setPendingUsername(username);
+      setPendingUsername(settledUsername);
       
       // Clear pending timeout since we got a definitive response
       if (pendingTimeoutRef.current) {
@@ -390,6 +484,13 @@ export default function Chat() {
     localStorage.setItem('whirledtalk-username', newUsername);
   }, [validUsername]);
 
+  // Signing in switches to the account's reserved name
+  useEffect(() => {
+    if (account && account.username !== username) {
+      handleUsernameChange(account.username);
+    }
+  }, [account?.username]);
+
   // Style synchronization across tabs for same username
   const { broadcastStyleChange } = useStyleSync({
     username,
@@ -408,6 +509,9 @@ export default function Chat() {
     // Use valid username for messages when in rejected state
     const messageUsername = usernameStatus === 'rejected' ? validUsername : username;
     
+    // The server drops a muted user's frames; don't show bubbles nobody else will see
+    if (mutedUntil && Date.now() < mutedUntil) return;
+
     // Show error flash if trying to send with rejected username
     if (isComplete && usernameStatus === 'rejected') {
       setNameError(`Cannot send message as "${username}" - name is taken. Using "${validUsername}" instead.`);
@@ -426,17 +530,21 @@ export default function Chat() {
         height: 6 // Approximate message height percentage
       }]);
       
+      const nonce = createNonce();
       sendMessage({
         type: 'newMessage',
         content,
         yPosition,
         userColor: textColor,
         fontSize: fontSize,
+        nonce,
       });
       
-      // Add to local messages immediately with the actual sending username
+      // Add to local messages immediately; the server's ack replaces the temporary id
       setMessages(prev => [...prev, {
-        id: Date.now() + Math.random(), // Ensure unique ID
+        id: -Date.now(),
+        clientKey: nonce,
+        shownAt: Date.now(),
         username: messageUsername,
         content,
         room: params.room,
@@ -448,8 +556,10 @@ export default function Chat() {
         fontSize: fontSize,   // Include current style
         sourceUrl: null,
         sourceLabel: null,
+        sourceBadge: null,
         storyUrl: null,
         storyLabel: null,
+        editedAt: null,
       }]);
 
       // Clear typing indicator
@@ -485,7 +595,38 @@ export default function Chat() {
         return newMap;
       });
     }
-  }, [sendMessage, username, validUsername, usernameStatus, params.room, typingMessages, textColor, fontSize, findOptimalPosition]);
+  }, [sendMessage, username, validUsername, usernameStatus, mutedUntil, params.room, typingMessages, textColor, fontSize, findOptimalPosition]);
+
+  const editingMessage = editingKey ? messages.find((message) => message.clientKey === editingKey) : undefined;
+
+  // Stop editing if the bubble drifts off screen or is retracted meanwhile
+  useEffect(() => {
+    if (editingKey && (!editingMessage || editingMessage.retracted)) {
+      setEditingKey(null);
+    }
+  }, [editingKey, editingMessage]);
+
+  const handleEditMessage = useCallback((message: DisplayMessage) => {
+    setEditingKey(message.clientKey);
+  }, []);
+
+  const handleSubmitEdit = useCallback((content: string) => {
+    if (editingMessage && editingMessage.id > 0 && content !== editingMessage.content) {
+      sendMessage({ type: 'editMessage', id: editingMessage.id, content });
+      setMessages(prev => prev.map((message) => message.clientKey === editingMessage.clientKey
+        ? { ...message, content, editedAt: new Date(), beforeEdit: { content: message.content, editedAt: message.editedAt } }
+        : message));
+    }
+    setEditingKey(null);
+  }, [editingMessage, sendMessage]);
+
+  const handleRetractMessage = useCallback((target: DisplayMessage) => {
+    if (target.id <= 0) return;
+    sendMessage({ type: 'deleteMessage', id: target.id });
+    setMessages(prev => prev.map((message) => message.clientKey === target.clientKey
+      ? { ...message, retracted: true }
+      : message));
+  }, [sendMessage]);
 
   // Cleanup timeouts on unmount
   useEffect(() => {
@@ -498,8 +639,11 @@ export default function Chat() {
 
   return (
     <div className={`h-full w-full flex flex-col relative ${themeClasses.background} ${themeClasses.font}`}>
-      <ConnectionStatus isConnected={isConnected} connectedUsers={connectedUsers} />
+      <ConnectionStatus isConnected={isConnected} connectedUsers={connectedUsers} latencyMs={latencyMs} isStalled={isStalled} />
+      <PresenceRoster users={presence} currentUser={username} />
       <RoomIndicator room={params.room} />
+      <RoomLockControl room={params.room} passphrase={roomPassphrase} onChange={handlePassphraseChange} />
+      <AccountMenu />
       
       <ChatViewport 
         messages={messages} 
@@ -507,6 +651,8 @@ export default function Chat() {
         currentUser={username}
         userSettings={{ color: textColor, fontSize }}
         onMessageExpired={handleMessageExpired}
+        onEditMessage={handleEditMessage}
+        onRetractMessage={handleRetractMessage}
       />
       
       <CustomizationBar
@@ -519,6 +665,10 @@ export default function Chat() {
         onTextColorChange={handleTextColorChange}
         usernameStatus={usernameStatus}
         validUsername={validUsername}
+        editingContent={editingMessage?.content ?? null}
+        onSubmitEdit={handleSubmitEdit}
+        onCancelEdit={() => setEditingKey(null)}
+        deliveryError={deliveryError}
       />
 
       {/* Name Error/Success Indicator */}
@@ -539,6 +689,16 @@ export default function Chat() {
         </div>
       )}
 
+      <ModerationBanner
+        mutedUntil={mutedUntil}
+        removedReason={removedReason}
+        onMuteExpired={clearMute}
+      />
+
+      {accessError && (
+        <PassphrasePrompt error={accessError} onSubmit={handlePassphraseChange} />
+      )}
+
       {/* Query Demo Indicator */}
       <div className="absolute bottom-20 left-4 bg-indigo-900/90 backdrop-blur-sm px-3 py-2 rounded-lg text-xs border border-indigo-600/50">
         <div className="text-indigo-300 font-medium mb-1">Query Customization:</div>
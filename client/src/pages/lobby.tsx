@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import type { RoomSummary } from '@shared/schema';
+
+const roomHref = (room: string) => `/?room=${encodeURIComponent(room)}`;
+
+export default function Lobby() {
+  const [, navigate] = useLocation();
+  const [newRoom, setNewRoom] = useState('');
+  const { data: rooms = [], isLoading, isError } = useQuery<RoomSummary[]>({
+    queryKey: ['/api/rooms'],
+    refetchInterval: 5000,
+  });
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const room = newRoom.trim();
+    if (room) {
+      navigate(roomHref(room));
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-gray-900 text-gray-200 font-inter">
+      <div className="max-w-2xl mx-auto px-4 py-10">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-xl font-semibold">
+            <i className="fas fa-globe text-indigo-400 mr-2" />
+            WhirledTalk rooms
+          </h1>
+          <form onSubmit={handleJoin} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newRoom}
+              onChange={(e) => setNewRoom(e.target.value)}
+              placeholder="Room name..."
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              type="submit"
+              className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-sm font-medium transition-colors"
+            >
+              Join
+            </button>
+          </form>
+        </div>
+
+        {isLoading && <div className="text-sm text-gray-500">Loading rooms…</div>}
+        {isError && <div className="text-sm text-red-400">Could not load the room directory.</div>}
+        {!isLoading && !isError && rooms.length === 0 && (
+          <div className="text-sm text-gray-500">No active rooms right now. Start one above.</div>
+        )}
+
+        <ul className="space-y-2">
+          {rooms.map((room) => (
+            <li key={room.room}>
+              <Link
+                href={roomHref(room.room)}
+                className="flex items-center justify-between gap-4 bg-gray-800/90 hover:bg-gray-700/90 border border-gray-700 rounded-xl px-4 py-3 transition-colors"
+              >
+                <span className="font-medium">
+                  <i className="fas fa-hashtag text-indigo-400 mr-1" />
+                  {room.room}
+                </span>
+                <span className="flex items-center gap-4 text-xs text-gray-400">
+                  <span>{room.userCount} online</span>
+                  <span>{room.messagesPerMinute}/min</span>
+                  <span className="w-28 text-right">
+                    {room.lastActivity
+                      ? formatDistanceToNow(new Date(room.lastActivity), { addSuffix: true })
+                      : 'quiet'}
+                  </span>
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
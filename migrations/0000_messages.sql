@@ -0,0 +1,18 @@
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"content" text NOT NULL,
+	"room" text DEFAULT 'global' NOT NULL,
+	"is_typing" boolean DEFAULT false,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"x_position" integer NOT NULL,
+	"y_position" integer NOT NULL,
+	"user_color" text,
+	"font_size" text,
+	"source_url" text,
+	"source_label" text,
+	"story_url" text,
+	"story_label" text
+);
+--> statement-breakpoint
+CREATE INDEX "messages_room_timestamp_idx" ON "messages" USING btree ("room","timestamp");
\ No newline at end of file
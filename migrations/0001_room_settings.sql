@@ -0,0 +1,6 @@
+CREATE TABLE "room_settings" (
+	"room" text PRIMARY KEY NOT NULL,
+	"retention_max_age_minutes" integer,
+	"retention_max_count" integer,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "room_settings" ADD COLUMN "hidden" boolean DEFAULT false NOT NULL;
\ No newline at end of file
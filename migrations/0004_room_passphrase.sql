@@ -0,0 +1 @@
+ALTER TABLE "room_settings" ADD COLUMN "passphrase_hash" text;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "room_bans" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"room" text NOT NULL,
+	"username" text NOT NULL,
+	"session_id" text,
+	"fingerprint" text,
+	"ip" text,
+	"reason" text,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "room_moderators" (
+	"room" text NOT NULL,
+	"username" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "room_moderators_room_username_pk" PRIMARY KEY("room","username")
+);
+--> statement-breakpoint
+CREATE INDEX "room_bans_room_idx" ON "room_bans" USING btree ("room");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"room" text NOT NULL,
+	"username" text,
+	"actor" text,
+	"reason" text NOT NULL,
+	"detail" text,
+	"content_hash" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_events_room_created_idx" ON "audit_events" USING btree ("room","created_at");
\ No newline at end of file
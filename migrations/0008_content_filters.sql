@@ -0,0 +1 @@
+ALTER TABLE "room_settings" ADD COLUMN "content_filters" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "room_settings" ADD COLUMN "rate_limits" jsonb;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "relay_sources" (
+	"id" text PRIMARY KEY NOT NULL,
+	"label" text NOT NULL,
+	"badge_style" text NOT NULL,
+	"token" text NOT NULL,
+	"rooms" text[] NOT NULL,
+	"field_mapping" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "source_badge" text;
\ No newline at end of file
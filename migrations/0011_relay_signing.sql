@@ -0,0 +1 @@
+ALTER TABLE "relay_sources" ADD COLUMN "signed" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "feed_subscriptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"room" text NOT NULL,
+	"url" text NOT NULL,
+	"label" text NOT NULL,
+	"badge_style" text NOT NULL,
+	"last_polled_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "feed_subscriptions_room_idx" ON "feed_subscriptions" USING btree ("room");
\ No newline at end of file
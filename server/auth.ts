@@ -0,0 +1,100 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import type { Account } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    account?: Account;
+    socketSessionId?: string; // Reused for every socket token this browser mints
+  }
+}
+
+const MemoryStore = createMemoryStore(session);
+const PgStore = connectPgSimple(session);
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+const SOCKET_TOKEN_TTL = 60 * 60 * 1000; // 1 hour
+
+// Instances behind a shared bus must agree on cookies and socket tokens, so each one
+// needs the same secret and a session store they can all read
+if (process.env.BROADCAST_BUS_URL && !(process.env.SESSION_SECRET && process.env.DATABASE_URL)) {
+  throw new Error("BROADCAST_BUS_URL requires SESSION_SECRET and DATABASE_URL so instances share sessions");
+}
+
+// Without SESSION_SECRET, logins only survive until the server restarts
+const SESSION_SECRET = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+const createSessionStore = () =>
+  process.env.BROADCAST_BUS_URL
+    ? new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true })
+    : new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+
+export const sessionMiddleware = session({
+  name: "whirledtalk.sid",
+  secret: SESSION_SECRET,
+  store: createSessionStore(),
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE,
+  },
+});
+
+// WebSocket tokens: "<base64url payload>.<base64url HMAC-SHA256>", minted over REST
+// and required on the /ws upgrade. The server picks the session id, not the client.
+export interface SocketToken {
+  sessionId: string;
+  username: string;
+  room: string;
+  expiresAt: number;
+}
+
+const sign = (payload: string) =>
+  createHmac("sha256", SESSION_SECRET).update(payload).digest("base64url");
+
+const decodeSocketToken = (token: string): SocketToken | undefined => {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return undefined;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as SocketToken;
+    return typeof parsed.sessionId === "string" && typeof parsed.expiresAt === "number" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// A still-authentic previous token, even an expired one, keeps its session id so
+// name ownership survives reconnects
+export const previousSocketSession = (previousToken?: string) =>
+  previousToken ? decodeSocketToken(previousToken)?.sessionId : undefined;
+
+export const newSocketSessionId = () => `session_${randomBytes(12).toString("hex")}`;
+
+export const mintSocketToken = (username: string, room: string, sessionId: string) => {
+  const claims: SocketToken = {
+    sessionId,
+    username,
+    room,
+    expiresAt: Date.now() + SOCKET_TOKEN_TTL,
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, claims };
+};
+
+export const verifySocketToken = (
+  token: string | null | undefined,
+): { claims: SocketToken } | { error: "invalid" | "expired" } => {
+  const claims = token ? decodeSocketToken(token) : undefined;
+  if (!claims) return { error: "invalid" };
+  if (claims.expiresAt <= Date.now()) return { error: "expired" };
+  return { claims };
+};
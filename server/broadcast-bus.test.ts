@@ -0,0 +1,170 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type AddressInfo, type Server, type Socket } from "net";
+import { createInProcessBus, createRedisBus, type BroadcastBus } from "./broadcast-bus";
+
+// Just enough of Redis pub/sub for the bus: SUBSCRIBE, PUBLISH and AUTH
+const startFakeRedis = () => {
+  const subscribers = new Map<string, Set<Socket>>();
+  const sockets = new Set<Socket>();
+  let subscriptions = 0;
+  let garbleNextSubscription = false;
+
+  const bulk = (value: string) => `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+  // Commands arrive as RESP arrays of bulk strings
+  const readCommands = (buffer: string) => {
+    const commands: string[][] = [];
+    let rest = buffer;
+    for (;;) {
+      const match = rest.match(/^\*(\d+)\r\n/);
+      if (!match) break;
+      let cursor = match[0].length;
+      const args: string[] = [];
+      for (let i = 0; i < Number(match[1]); i++) {
+        const header = rest.slice(cursor).match(/^\$(\d+)\r\n/);
+        if (!header) return { commands, rest };
+        const start = cursor + header[0].length;
+        const end = start + Number(header[1]);
+        if (rest.length < end + 2) return { commands, rest };
+        args.push(rest.slice(start, end));
+        cursor = end + 2;
+      }
+      commands.push(args);
+      rest = rest.slice(cursor);
+    }
+    return { commands, rest };
+  };
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => {
+      sockets.delete(socket);
+      subscribers.forEach((set) => set.delete(socket));
+    });
+    let pending = "";
+    socket.on("data", (chunk) => {
+      const { commands, rest } = readCommands(pending + chunk.toString("utf8"));
+      pending = rest;
+      commands.forEach(([command, ...args]) => {
+        switch (command.toUpperCase()) {
+          case "AUTH":
+            socket.write("+OK\r\n");
+            break;
+          case "SUBSCRIBE": {
+            subscriptions++;
+            if (garbleNextSubscription) {
+              garbleNextSubscription = false;
+              socket.write("?not a reply type\r\n");
+              break;
+            }
+            const set = subscribers.get(args[0]) ?? new Set();
+            set.add(socket);
+            subscribers.set(args[0], set);
+            socket.write(`*3\r\n${bulk("subscribe")}${bulk(args[0])}:1\r\n`);
+            break;
+          }
+          case "PUBLISH": {
+            const set = subscribers.get(args[0]) ?? new Set<Socket>();
+            set.forEach((subscriber) => subscriber.write(`*3\r\n${bulk("message")}${bulk(args[0])}${bulk(args[1])}`));
+            socket.write(`:${set.size}\r\n`);
+            break;
+          }
+          default:
+            socket.write(`-ERR unknown command '${command}'\r\n`);
+        }
+      });
+    });
+  });
+
+  return {
+    server,
+    listening: new Promise<number>((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port))),
+    subscriberCount: () => Array.from(subscribers.values()).reduce((count, set) => count + set.size, 0),
+    subscriptions: () => subscriptions,
+    garbleNextSubscription: () => {
+      garbleNextSubscription = true;
+    },
+    close: () => {
+      sockets.forEach((socket) => socket.destroy());
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describe("createInProcessBus", () => {
+  it("delivers every payload to every subscriber, asynchronously", async () => {
+    const bus = createInProcessBus();
+    const first: string[] = [];
+    const second: string[] = [];
+    bus.subscribe((payload) => first.push(payload));
+    const unsubscribe = bus.subscribe((payload) => second.push(payload));
+
+    bus.publish("one");
+    assert.deepEqual(first, []);
+    await waitFor(() => first.length === 1);
+    unsubscribe();
+    bus.publish("two");
+    await waitFor(() => first.length === 2);
+
+    assert.deepEqual(first, ["one", "two"]);
+    assert.deepEqual(second, ["one"]);
+    await bus.close();
+  });
+});
+
+describe("createRedisBus", () => {
+  let redis: ReturnType<typeof startFakeRedis>;
+  let url: string;
+  const buses: BroadcastBus[] = [];
+
+  before(async () => {
+    redis = startFakeRedis();
+    url = `redis://:secret@127.0.0.1:${await redis.listening}`;
+  });
+
+  after(async () => {
+    await Promise.all(buses.map((bus) => bus.close()));
+    await redis.close();
+  });
+
+  const openBus = () => {
+    const bus = createRedisBus(url);
+    buses.push(bus);
+    return bus;
+  };
+
+  it("delivers payloads published by one bus to the others", async () => {
+    const publisher = openBus();
+    const subscriber = openBus();
+    const received: string[] = [];
+    subscriber.subscribe((payload) => received.push(payload));
+    await waitFor(() => redis.subscriberCount() === 2);
+
+    publisher.publish(JSON.stringify({ hello: "world" }));
+    await waitFor(() => received.length === 1);
+    assert.deepEqual(JSON.parse(received[0]), { hello: "world" });
+  });
+
+  it("reconnects instead of crashing on an unreadable reply", async () => {
+    const before = redis.subscriptions();
+    redis.garbleNextSubscription();
+    const subscriber = openBus();
+    const received: string[] = [];
+    subscriber.subscribe((payload) => received.push(payload));
+
+    // The first subscription gets garbage, the bus drops it and subscribes again
+    await waitFor(() => redis.subscriptions() >= before + 2);
+    await waitFor(() => redis.subscriberCount() === 3);
+    openBus().publish("after the garbage");
+    await waitFor(() => received.includes("after the garbage"));
+  });
+});
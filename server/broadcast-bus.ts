@@ -0,0 +1,191 @@
+// Broadcast bus that lets several server instances behind a load balancer share
+// room broadcasts, presence and name ownership. Payloads are opaque strings;
+// every subscriber (including the publishing instance) receives every payload,
+// so callers tag their events with an instance id and skip their own.
+import { connect, type Socket } from "net";
+
+export interface BroadcastBus {
+  publish(payload: string): void;
+  subscribe(handler: (payload: string) => void): () => void;
+  close(): Promise<void>;
+}
+
+const BUS_CHANNEL = process.env.BROADCAST_BUS_CHANNEL || "whirledtalk:broadcast";
+const RECONNECT_DELAY = 1000;
+const MAX_PENDING_PUBLISHES = 1000; // Held while the bus is reconnecting; older ones are dropped
+
+// Single process: instances created in the same process can share one of these
+export const createInProcessBus = (): BroadcastBus => {
+  const handlers = new Set<(payload: string) => void>();
+  return {
+    publish: (payload) => {
+      // Delivered asynchronously, like a networked bus, so publishers never re-enter themselves
+      queueMicrotask(() => handlers.forEach((handler) => handler(payload)));
+    },
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    close: async () => handlers.clear(),
+  };
+};
+
+const encodeCommand = (...args: string[]) =>
+  Buffer.concat([
+    Buffer.from(`*${args.length}\r\n`),
+    ...args.map((arg) => {
+      const bytes = Buffer.from(arg);
+      return Buffer.concat([Buffer.from(`$${bytes.length}\r\n`), bytes, Buffer.from("\r\n")]);
+    }),
+  ]);
+
+type Reply = string | number | null | Error | Reply[];
+
+// Reads one RESP reply from the buffer; undefined when more bytes are needed
+const readReply = (buffer: Buffer, offset: number): { reply: Reply; next: number } | undefined => {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return undefined;
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (String.fromCharCode(buffer[offset])) {
+    case "+":
+      return { reply: line, next };
+    case "-":
+      return { reply: new Error(line), next };
+    case ":":
+      return { reply: Number(line), next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) return { reply: null, next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { reply: buffer.toString("utf8", next, next + length), next: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { reply: null, next };
+      const items: Reply[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = readReply(buffer, cursor);
+        if (!item) return undefined;
+        items.push(item.reply);
+        cursor = item.next;
+      }
+      return { reply: items, next: cursor };
+    }
+    default:
+      throw new Error(`Unexpected RESP type byte ${buffer[offset]}`);
+  }
+};
+
+// A Redis connection that reconnects on its own; `onReady` runs after each (re)connect
+const openRedisConnection = (
+  url: URL,
+  onReady: (socket: Socket) => void,
+  onReply: (reply: Reply) => void,
+) => {
+  let socket: Socket | undefined;
+  let closed = false;
+  let buffer = Buffer.alloc(0);
+
+  const open = () => {
+    const connection = connect({ host: url.hostname, port: Number(url.port) || 6379 });
+    connection.on("connect", () => {
+      buffer = Buffer.alloc(0);
+      if (url.password) {
+        const password = decodeURIComponent(url.password);
+        connection.write(url.username
+          ? encodeCommand("AUTH", decodeURIComponent(url.username), password)
+          : encodeCommand("AUTH", password));
+      }
+      socket = connection;
+      onReady(connection);
+    });
+    connection.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let parsed = readReply(buffer, 0);
+        while (parsed) {
+          buffer = buffer.subarray(parsed.next);
+          if (parsed.reply instanceof Error) {
+            console.error("[bus] redis error:", parsed.reply.message);
+          } else {
+            onReply(parsed.reply);
+          }
+          parsed = buffer.length > 0 ? readReply(buffer, 0) : undefined;
+        }
+      } catch (error) {
+        // The stream is out of step with us; start over on a fresh connection
+        console.error("[bus] unreadable redis reply, reconnecting:", (error as Error).message);
+        connection.destroy();
+      }
+    });
+    connection.on("error", (error) => console.error("[bus] redis connection error:", error.message));
+    connection.on("close", () => {
+      socket = undefined;
+      if (!closed) setTimeout(open, RECONNECT_DELAY);
+    });
+  };
+  open();
+
+  return {
+    current: () => socket,
+    close: () => {
+      closed = true;
+      socket?.end();
+    },
+  };
+};
+
+// Networked: PUBLISH/SUBSCRIBE on one channel of a Redis-protocol server, e.g. redis://:password@host:6379
+export const createRedisBus = (busUrl: string): BroadcastBus => {
+  const url = new URL(busUrl);
+  const handlers = new Set<(payload: string) => void>();
+  const pending: Buffer[] = [];
+
+  // Subscribed connections can't issue other commands, so publishing gets its own
+  const publisher = openRedisConnection(
+    url,
+    (socket) => pending.splice(0).forEach((command) => socket.write(command)),
+    () => {},
+  );
+  const subscriber = openRedisConnection(
+    url,
+    (socket) => socket.write(encodeCommand("SUBSCRIBE", BUS_CHANNEL)),
+    (reply) => {
+      if (Array.isArray(reply) && reply[0] === "message" && reply[1] === BUS_CHANNEL && typeof reply[2] === "string") {
+        const payload = reply[2];
+        handlers.forEach((handler) => handler(payload));
+      }
+    },
+  );
+
+  return {
+    publish: (payload) => {
+      const command = encodeCommand("PUBLISH", BUS_CHANNEL, payload);
+      const socket = publisher.current();
+      if (socket) {
+        socket.write(command);
+        return;
+      }
+      pending.push(command);
+      if (pending.length > MAX_PENDING_PUBLISHES) pending.shift();
+    },
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    close: async () => {
+      handlers.clear();
+      publisher.close();
+      subscriber.close();
+    },
+  };
+};
+
+// BROADCAST_BUS_URL selects the networked bus; without it the server runs as a single instance
+export const createBroadcastBus = (): BroadcastBus => {
+  const busUrl = process.env.BROADCAST_BUS_URL;
+  return busUrl ? createRedisBus(busUrl) : createInProcessBus();
+};
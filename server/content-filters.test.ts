@@ -0,0 +1,89 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ContentFilterUpdate } from "@shared/schema";
+import { DEFAULT_CONTENT_FILTERS, mergeContentFilters, runContentFilters } from "./content-filters";
+
+const withFilters = (update: ContentFilterUpdate) => mergeContentFilters(DEFAULT_CONTENT_FILTERS, update);
+
+const passes = (content: string, config = DEFAULT_CONTENT_FILTERS) => {
+  const outcome = runContentFilters(content, config);
+  assert.equal(outcome.rejected, false, `${JSON.stringify(content)} was rejected`);
+  return outcome;
+};
+
+const rejection = (content: string, config = DEFAULT_CONTENT_FILTERS, draft = false) => {
+  const outcome = runContentFilters(content, config, draft);
+  assert.ok(outcome.rejected, `${JSON.stringify(content)} passed`);
+  return outcome.hit;
+};
+
+describe("runContentFilters", () => {
+  it("doesn't count letters from other scripts as symbols", () => {
+    assert.equal(passes("你好，世界").content, "你好，世界");
+    assert.equal(passes("Привет, мир!").content, "Привет, мир!");
+    assert.equal(passes("こんにちは。元気？").hits.length, 0);
+  });
+
+  it("lets emoji through", () => {
+    assert.equal(passes("🎉🎉 👍🏽").content, "🎉🎉 👍🏽");
+    assert.equal(passes("ok 😀").hits.length, 0);
+  });
+
+  it("rejects symbol-heavy and overlong messages but not drafts of them", () => {
+    assert.equal(rejection(":)").reason, "special_chars");
+    assert.equal(rejection("a".repeat(150) + " " + "b".repeat(60)).reason, "too_long");
+
+    assert.equal(runContentFilters(":)", DEFAULT_CONTENT_FILTERS, true).rejected, false);
+    assert.equal(runContentFilters("...ok", DEFAULT_CONTENT_FILTERS, true).rejected, false);
+    assert.equal(runContentFilters("word ".repeat(50), DEFAULT_CONTENT_FILTERS, true).rejected, false);
+  });
+
+  it("still applies the other filters to drafts", () => {
+    assert.equal(rejection("aaaaaaaaaaaaaaaa", DEFAULT_CONTENT_FILTERS, true).reason, "repeated_chars");
+  });
+
+  it("masks, flags or rejects according to the filter's action", () => {
+    const words = ["darn"];
+    const masked = passes("oh darn it", withFilters({ blocklist: { action: "mask", words } }));
+    assert.equal(masked.content, "oh **** it");
+    assert.deepEqual(masked.hits.map((hit) => [hit.filter, hit.action]), [["blocklist", "mask"]]);
+
+    const flagged = passes("oh darn it", withFilters({ blocklist: { action: "flag", words } }));
+    assert.equal(flagged.content, "oh darn it");
+    assert.deepEqual(flagged.hits.map((hit) => [hit.reason, hit.action]), [["blocked_word", "flag"]]);
+
+    const hit = rejection("oh darn it", withFilters({ blocklist: { action: "reject", words } }));
+    assert.deepEqual([hit.reason, hit.detail], ["blocked_word", "1 blocked term"]);
+  });
+
+  it("masks with every later filter still running on the masked text", () => {
+    const config = withFilters({ symbols: { action: "mask" }, blocklist: { words: ["darn"] } });
+    assert.equal(passes("darn!!!!!!!!", config).content, "****");
+  });
+
+  it("matches blocklist words on word boundaries only", () => {
+    const config = withFilters({ blocklist: { words: ["ass"] } });
+    assert.equal(passes("a classic assessment", config).content, "a classic assessment");
+    assert.equal(passes("bad ass.", config).content, "bad ***.");
+    assert.equal(passes("ASS!", withFilters({ blocklist: { words: ["ass"] }, symbols: { enabled: false } })).content, "***!");
+    // Letters from any script count as word characters
+    assert.equal(passes("assé", config).content, "assé");
+  });
+
+  it("allows links to listed domains and their subdomains", () => {
+    const config = withFilters({ links: { enabled: true, allowedDomains: ["example.com"] } });
+    passes("see https://example.com/a", config);
+    passes("docs at https://docs.example.com/guide and www.example.com", config);
+
+    const hit = rejection("try https://evil.test/x", config);
+    assert.deepEqual([hit.reason, hit.detail], ["disallowed_link", "evil.test"]);
+    rejection("https://notexample.com", config);
+
+    const masking = withFilters({ links: { enabled: true, action: "mask", allowedDomains: ["example.com"] } });
+    assert.equal(passes("https://example.com or https://evil.test", masking).content, "https://example.com or [link removed]");
+  });
+
+  it("skips disabled filters", () => {
+    assert.equal(passes("?!", withFilters({ symbols: { enabled: false } })).content, "?!");
+  });
+});
@@ -0,0 +1,171 @@
+// Content filter pipeline for chat frames. Each room can tune or disable the
+// filters; rooms without settings use DEFAULT_CONTENT_FILTERS.
+import type {
+  ContentFilterConfig,
+  ContentFilterUpdate,
+  FilterAction,
+  RejectionReason,
+} from "@shared/schema";
+
+export const DEFAULT_CONTENT_FILTERS: ContentFilterConfig = {
+  length: { enabled: true, action: "reject", max: 200 },
+  repetition: { enabled: true, action: "reject", maxRun: 10 },
+  symbols: { enabled: true, action: "reject", maxRatio: 0.5 },
+  blocklist: { enabled: true, action: "mask", words: [], patterns: [] },
+  links: { enabled: false, action: "reject", allowedDomains: [] },
+};
+
+export type FilterName = keyof ContentFilterConfig;
+
+export interface FilterHit {
+  filter: FilterName;
+  reason: RejectionReason;
+  action: FilterAction;
+  detail: string;
+}
+
+export type FilterOutcome =
+  | { rejected: false; content: string; hits: FilterHit[] }
+  | { rejected: true; hit: FilterHit; hits: FilterHit[] };
+
+// Masking callback returns the replacement content
+type Finding = { detail: string; mask: () => string };
+type Filter<K extends FilterName> = (content: string, settings: ContentFilterConfig[K]) => Finding | null;
+
+const FILTER_REASONS: Record<FilterName, RejectionReason> = {
+  length: "too_long",
+  repetition: "repeated_chars",
+  symbols: "special_chars",
+  blocklist: "blocked_word",
+  links: "disallowed_link",
+};
+
+const WORD_CHAR = "[\\p{L}\\p{N}\\p{M}_]";
+const SYMBOL = new RegExp("[\\p{P}\\p{S}]", "u");
+const EMOJI = new RegExp("\\p{Extended_Pictographic}|\\p{Emoji_Modifier}", "u");
+const LINK = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const maskText = (value: string) => "*".repeat(Array.from(value).length);
+
+const isSymbol = (char: string) => SYMBOL.test(char) && !EMOJI.test(char);
+
+const linkHost = (link: string) => {
+  try {
+    return new URL(/^www\./i.test(link) ? `http://${link}` : link).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+};
+
+const lengthFilter: Filter<"length"> = (content, { max }) => {
+  const chars = Array.from(content);
+  if (chars.length <= max) return null;
+  return {
+    detail: `${chars.length} characters`,
+    mask: () => `${chars.slice(0, Math.max(0, max - 1)).join("")}…`,
+  };
+};
+
+const repetitionFilter: Filter<"repetition"> = (content, { maxRun }) => {
+  const run = new RegExp(`(.)\\1{${maxRun},}`, "gu");
+  const match = content.match(run);
+  if (!match) return null;
+  return {
+    detail: `run of ${Array.from(match[0]).length}`,
+    mask: () => content.replace(run, (sequence) => Array.from(sequence).slice(0, maxRun).join("")),
+  };
+};
+
+const symbolsFilter: Filter<"symbols"> = (content, { maxRatio }) => {
+  const chars = Array.from(content).filter((char) => !/\s/.test(char));
+  if (chars.length === 0) return null;
+  const ratio = chars.filter(isSymbol).length / chars.length;
+  if (ratio <= maxRatio) return null;
+  return {
+    detail: `${Math.round(ratio * 100)}% symbols`,
+    mask: () => Array.from(content).filter((char) => !isSymbol(char)).join(""),
+  };
+};
+
+const blocklistFilter: Filter<"blocklist"> = (content, { words, patterns }) => {
+  const expressions = [
+    ...words.map((word) => new RegExp(`(?<!${WORD_CHAR})${escapeRegExp(word)}(?!${WORD_CHAR})`, "giu")),
+    ...patterns.map((pattern) => new RegExp(pattern, "giu")),
+  ];
+  const matched = expressions.filter((expression) => {
+    expression.lastIndex = 0;
+    return expression.test(content);
+  });
+  if (matched.length === 0) return null;
+  return {
+    detail: `${matched.length} blocked term${matched.length === 1 ? "" : "s"}`,
+    mask: () => matched.reduce((masked, expression) => {
+      expression.lastIndex = 0;
+      return masked.replace(expression, (found) => maskText(found));
+    }, content),
+  };
+};
+
+const linksFilter: Filter<"links"> = (content, { allowedDomains }) => {
+  const isAllowed = (link: string) => {
+    const host = linkHost(link);
+    return allowedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+  };
+  const blocked = (content.match(LINK) ?? []).filter((link) => !isAllowed(link));
+  if (blocked.length === 0) return null;
+  return {
+    detail: blocked.map(linkHost).filter(Boolean).join(", ") || "link",
+    mask: () => content.replace(LINK, (link) => (isAllowed(link) ? link : "[link removed]")),
+  };
+};
+
+const FILTERS: { [K in FilterName]: Filter<K> } = {
+  length: lengthFilter,
+  repetition: repetitionFilter,
+  symbols: symbolsFilter,
+  blocklist: blocklistFilter,
+  links: linksFilter,
+};
+
+const FILTER_ORDER: FilterName[] = ["length", "repetition", "symbols", "blocklist", "links"];
+
+// Judged on the finished message only: a draft of ":)" or "...ok" starts out all symbols,
+// and rejecting a long draft would freeze its preview before the sender can trim it
+const SUBMIT_ONLY_FILTERS = new Set<FilterName>(["length", "symbols"]);
+
+// `draft` is for live keystroke frames
+export const runContentFilters = (content: string, config: ContentFilterConfig, draft = false): FilterOutcome => {
+  const hits: FilterHit[] = [];
+  let current = content;
+
+  for (const name of FILTER_ORDER) {
+    const settings = config[name];
+    if (!settings.enabled || (draft && SUBMIT_ONLY_FILTERS.has(name))) continue;
+
+    const finding = (FILTERS[name] as Filter<typeof name>)(current, settings as never);
+    if (!finding) continue;
+
+    const hit: FilterHit = { filter: name, reason: FILTER_REASONS[name], action: settings.action, detail: finding.detail };
+    hits.push(hit);
+    if (settings.action === "reject") {
+      return { rejected: true, hit, hits };
+    }
+    if (settings.action === "mask") {
+      current = finding.mask();
+    }
+  }
+
+  return { rejected: false, content: current, hits };
+};
+
+export const mergeContentFilters = (
+  config: ContentFilterConfig,
+  update: ContentFilterUpdate,
+): ContentFilterConfig => ({
+  length: { ...config.length, ...update.length },
+  repetition: { ...config.repetition, ...update.repetition },
+  symbols: { ...config.symbols, ...update.symbols },
+  blocklist: { ...config.blocklist, ...update.blocklist },
+  links: { ...config.links, ...update.links },
+});
@@ -0,0 +1,133 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { fetchFeed } from "./feeds";
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Fixture News</title>
+    <link>http://news.test/</link>
+    <item>
+      <title><![CDATA[Second & newest]]></title>
+      <link>http://news.test/2</link>
+      <guid>news-2</guid>
+      <dc:creator>ada</dc:creator>
+      <pubDate>Tue, 02 Jan 2024 10:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>First</title>
+      <link>http://news.test/1</link>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Fixture Blog</title>
+  <link rel="self" href="http://blog.test/atom.xml"/>
+  <link href="http://blog.test/"/>
+  <entry>
+    <title>Hello Atom</title>
+    <id>urn:entry:1</id>
+    <link rel="edit" href="http://blog.test/edit/1"/>
+    <link rel="alternate" href="http://blog.test/1"/>
+    <author><name>grace</name></author>
+    <updated>2024-01-03T12:00:00Z</updated>
+  </entry>
+</feed>`;
+
+const CHUNK = Buffer.alloc(64 * 1024, "a");
+
+describe("fetchFeed", () => {
+  let server: Server;
+  let base: string;
+  let streamedBytes = 0;
+  let streamClosed: Promise<void>;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case "/rss":
+          res.setHeader("content-type", "application/rss+xml");
+          res.end(RSS);
+          return;
+        case "/atom":
+          res.setHeader("content-type", "application/atom+xml");
+          res.end(ATOM);
+          return;
+        case "/broken":
+          res.statusCode = 502;
+          res.end("bad gateway");
+          return;
+        case "/declared-huge":
+          res.setHeader("content-length", String(50 * 1024 * 1024));
+          res.write(CHUNK);
+          return;
+        case "/endless": {
+          // No content-length: keeps streaming until the client hangs up
+          streamClosed = new Promise((resolve) => res.on("close", resolve));
+          const pump = () => {
+            while (!res.destroyed && res.write(CHUNK)) streamedBytes += CHUNK.length;
+            if (!res.destroyed) res.once("drain", pump);
+          };
+          pump();
+          return;
+        }
+        default:
+          res.statusCode = 404;
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    return new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("reads RSS items in document order", async () => {
+    const feed = await fetchFeed(`${base}/rss`);
+    assert.equal(feed.title, "Fixture News");
+    assert.equal(feed.link, "http://news.test/");
+    assert.deepEqual(feed.entries, [
+      {
+        id: "news-2",
+        title: "Second & newest",
+        link: "http://news.test/2",
+        author: "ada",
+        publishedAt: new Date("2024-01-02T10:00:00Z"),
+      },
+      { id: "http://news.test/1", title: "First", link: "http://news.test/1", author: undefined, publishedAt: undefined },
+    ]);
+  });
+
+  it("reads Atom entries and prefers alternate links", async () => {
+    const feed = await fetchFeed(`${base}/atom`);
+    assert.equal(feed.title, "Fixture Blog");
+    assert.equal(feed.link, "http://blog.test/");
+    assert.equal(feed.entries.length, 1);
+    assert.equal(feed.entries[0].id, "urn:entry:1");
+    assert.equal(feed.entries[0].link, "http://blog.test/1");
+    assert.equal(feed.entries[0].author, "grace");
+    assert.deepEqual(feed.entries[0].publishedAt, new Date("2024-01-03T12:00:00Z"));
+  });
+
+  it("fails on error statuses", async () => {
+    await assert.rejects(fetchFeed(`${base}/broken`), /responded with 502/);
+  });
+
+  it("refuses bodies that declare more than the cap", async () => {
+    await assert.rejects(fetchFeed(`${base}/declared-huge`), /too large/);
+  });
+
+  it("stops reading an undeclared body once it passes the cap", async () => {
+    await assert.rejects(fetchFeed(`${base}/endless`), /too large/);
+    await streamClosed;
+    // The cap is 2 MiB; what the socket buffers beyond it is bounded, not the whole stream
+    assert.ok(streamedBytes < 8 * 1024 * 1024, `server streamed ${streamedBytes} bytes`);
+  });
+});
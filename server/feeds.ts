@@ -0,0 +1,118 @@
+// Minimal RSS 2.0 / Atom reader for feed subscriptions. Text comes back raw
+// (entities and markup intact) so callers can clean it like relayed HN items.
+const FEED_FETCH_TIMEOUT = 10 * 1000;
+const MAX_FEED_BYTES = 2 * 1024 * 1024;
+
+export interface FeedEntry {
+  id: string; // guid/id, falling back to the link or title
+  title: string;
+  link?: string;
+  author?: string;
+  publishedAt?: Date;
+}
+
+export interface ParsedFeed {
+  title?: string;
+  link?: string; // Site the feed belongs to
+  entries: FeedEntry[]; // In document order, usually newest first
+}
+
+const unwrapCdata = (value: string) => value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1").trim();
+
+const escapeTag = (tag: string) => tag.replace(/:/g, "\\:");
+
+// Text of the first <tag> directly inside the fragment
+const readTag = (fragment: string, tag: string) => {
+  const match = fragment.match(new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeTag(tag)}>`, "i"));
+  const value = match ? unwrapCdata(match[1]) : "";
+  return value || undefined;
+};
+
+const readAttribute = (tag: string, name: string) =>
+  tag.match(new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`, "i"))?.[1] ??
+  tag.match(new RegExp(`\\s${name}\\s*=\\s*'([^']*)'`, "i"))?.[1];
+
+// Atom puts links in attributes; prefer rel="alternate" (or no rel) over self/edit links
+const readAtomLink = (fragment: string) => {
+  const links = fragment.match(/<link\b[^>]*>/gi) ?? [];
+  const alternate = links.find((link) => {
+    const rel = readAttribute(link, "rel");
+    return !rel || rel === "alternate";
+  });
+  return alternate ? readAttribute(alternate, "href") : undefined;
+};
+
+const readDate = (fragment: string) => {
+  const value = readTag(fragment, "pubDate") ?? readTag(fragment, "published") ??
+    readTag(fragment, "updated") ?? readTag(fragment, "dc:date");
+  const date = value ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+};
+
+const readAuthor = (fragment: string) => {
+  const author = readTag(fragment, "author");
+  return readTag(fragment, "dc:creator") ?? (author && (readTag(author, "name") ?? author));
+};
+
+const parseEntry = (fragment: string): FeedEntry | undefined => {
+  const title = readTag(fragment, "title");
+  const link = readTag(fragment, "link") ?? readAtomLink(fragment);
+  const id = readTag(fragment, "guid") ?? readTag(fragment, "id") ?? link ?? title;
+  if (!id || !title) return undefined;
+
+  return { id, title, link, author: readAuthor(fragment), publishedAt: readDate(fragment) };
+};
+
+export const parseFeed = (xml: string): ParsedFeed => {
+  const isAtom = /<feed\b/i.test(xml) && !/<rss\b/i.test(xml);
+  const entryTag = isAtom ? "entry" : "item";
+  const fragments = xml.match(new RegExp(`<${entryTag}\\b[\\s\\S]*?</${entryTag}>`, "gi")) ?? [];
+
+  // Channel-level fields come before the first entry
+  const [firstEntry] = fragments;
+  const header = firstEntry ? xml.slice(0, xml.indexOf(firstEntry)) : xml;
+  const entries = fragments
+    .map(parseEntry)
+    .filter((entry): entry is FeedEntry => entry !== undefined);
+
+  return {
+    title: readTag(header, "title"),
+    link: isAtom ? readAtomLink(header) : readTag(header, "link"),
+    entries,
+  };
+};
+
+// Stops reading as soon as the body passes MAX_FEED_BYTES rather than buffering all of it
+const readCappedBody = async (response: Response) => {
+  if (Number(response.headers.get("content-length")) > MAX_FEED_BYTES) {
+    await response.body?.cancel();
+    throw new Error("Feed is too large");
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) return "";
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  let body = "";
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    bytes += chunk.value.byteLength;
+    if (bytes > MAX_FEED_BYTES) {
+      await reader.cancel();
+      throw new Error("Feed is too large");
+    }
+    body += decoder.decode(chunk.value, { stream: true });
+  }
+  return body + decoder.decode();
+};
+
+export const fetchFeed = async (url: string): Promise<ParsedFeed> => {
+  const response = await fetch(url, {
+    headers: { accept: "application/rss+xml, application/atom+xml, application/xml, text/xml" },
+    signal: AbortSignal.timeout(FEED_FETCH_TIMEOUT),
+  });
+  if (!response.ok) {
+    throw new Error(`Feed responded with ${response.status}`);
+  }
+
+  return parseFeed(await readCappedBody(response));
+};
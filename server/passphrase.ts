@@ -0,0 +1,24 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+// Room passphrases and account passwords are stored as "scrypt:<salt>:<hash>" (hex), never in plain text
+const KEY_LENGTH = 32;
+
+const derive = (passphrase: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+export const hashPassphrase = async (passphrase: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await derive(passphrase, salt);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+};
+
+export const verifyPassphrase = async (passphrase: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const key = await derive(passphrase, Buffer.from(salt, "hex"));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+};
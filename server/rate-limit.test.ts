@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { RateLimitConfig } from "@shared/schema";
+import {
+  checkLoginAttempt,
+  consumeRateLimit,
+  consumeSessionMint,
+  DEFAULT_RATE_LIMITS,
+  mergeRateLimits,
+  recordLoginFailure,
+} from "./rate-limit";
+
+// One message a second, up to three at once
+const config: RateLimitConfig = mergeRateLimits(DEFAULT_RATE_LIMITS, { message: { capacity: 3, refillPerMinute: 60 } });
+
+// Buckets live for the whole process, so every test uses rooms of its own
+describe("consumeRateLimit", () => {
+  let now = 1_700_000_000_000;
+
+  beforeEach(() => {
+    mock.method(Date, "now", () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const take = (room: string, keys: string[], limits = config) => consumeRateLimit("message", room, keys, limits);
+
+  it("empties a bucket and refills it over time", () => {
+    const keys = ["session:refill"];
+    for (let i = 0; i < 3; i++) assert.deepEqual(take("refill", keys), { allowed: true });
+    assert.deepEqual(take("refill", keys), { allowed: false, retryAfterMs: 1000 });
+
+    now += 500;
+    assert.deepEqual(take("refill", keys), { allowed: false, retryAfterMs: 500 });
+    now += 500;
+    assert.deepEqual(take("refill", keys), { allowed: true });
+
+    // Never refills past capacity
+    now += 60 * 1000;
+    for (let i = 0; i < 3; i++) assert.deepEqual(take("refill", keys), { allowed: true });
+    assert.equal(take("refill", keys).allowed, false);
+  });
+
+  it("shares one budget between the sockets of a session", () => {
+    const firstTab = ["session:shared", "ip:10.0.0.1"];
+    const secondTab = ["session:shared", "ip:10.0.0.2"];
+    assert.equal(take("tabs", firstTab).allowed, true);
+    assert.equal(take("tabs", secondTab).allowed, true);
+    assert.equal(take("tabs", firstTab).allowed, true);
+    assert.equal(take("tabs", secondTab).allowed, false);
+  });
+
+  it("gives an address three sessions' worth before throttling all of them", () => {
+    const sessions = ["one", "two", "three", "four"].map((id) => [`session:${id}`, "ip:10.0.0.9"]);
+    sessions.slice(0, 3).forEach((keys) => {
+      for (let i = 0; i < 3; i++) assert.equal(take("nat", keys).allowed, true);
+    });
+    assert.equal(take("nat", sessions[3]).allowed, false);
+  });
+
+  it("takes nothing from any bucket when one of them is empty", () => {
+    const keys = ["session:partial", "ip:10.0.0.3"];
+    for (let i = 0; i < 3; i++) take("partial", ["session:partial"]);
+    assert.equal(take("partial", keys).allowed, false);
+    // The address bucket is still full: nine more from other sessions pass
+    for (let i = 0; i < 9; i++) assert.equal(take("partial", [`session:other-${i}`, "ip:10.0.0.3"]).allowed, true);
+  });
+
+  it("reports the longest wait among the empty buckets", () => {
+    // Sessions refill one message every 10s; the address gets three times that
+    const strict = mergeRateLimits(config, { message: { capacity: 1, refillPerMinute: 6 } });
+    ["a", "b", "c"].forEach((id) => assert.equal(take("waits", [`session:${id}`, "ip:10.0.0.4"], strict).allowed, true));
+
+    // Only the address bucket is empty
+    assert.deepEqual(take("waits", ["session:d", "ip:10.0.0.4"], strict), { allowed: false, retryAfterMs: 3334 });
+    // Both are; the session bucket takes longer
+    assert.deepEqual(take("waits", ["session:a", "ip:10.0.0.4"], strict), { allowed: false, retryAfterMs: 10000 });
+  });
+
+  it("keeps rooms apart and applies each room's overrides", () => {
+    const quiet = mergeRateLimits(config, { message: { capacity: 1 } });
+    const keys = ["session:rooms"];
+    assert.equal(take("quiet", keys, quiet).allowed, true);
+    assert.equal(take("quiet", keys, quiet).allowed, false);
+    // Same session, different room and quotas
+    for (let i = 0; i < 3; i++) assert.equal(take("loud", keys).allowed, true);
+  });
+
+  it("limits new sessions per address", () => {
+    for (let i = 0; i < 20; i++) assert.equal(consumeSessionMint("10.0.0.5").allowed, true);
+    assert.deepEqual(consumeSessionMint("10.0.0.5"), { allowed: false, retryAfterMs: 10000 });
+    assert.equal(consumeSessionMint("10.0.0.6").allowed, true);
+  });
+});
+
+describe("mergeRateLimits", () => {
+  it("overrides only the fields given", () => {
+    const merged = mergeRateLimits(DEFAULT_RATE_LIMITS, { join: { capacity: 1 } });
+    assert.deepEqual(merged.join, { capacity: 1, refillPerMinute: DEFAULT_RATE_LIMITS.join.refillPerMinute });
+    assert.deepEqual(merged.keystroke, DEFAULT_RATE_LIMITS.keystroke);
+  });
+});
+
+describe("login limits", () => {
+  it("counts failures per account name and lets checks through for free", () => {
+    for (let i = 0; i < 50; i++) assert.equal(checkLoginAttempt("10.0.1.1", "ada").allowed, true);
+    for (let i = 0; i < 10; i++) recordLoginFailure(`10.0.1.${i + 1}`, "ada");
+
+    // Every address is now locked out of this account, but not out of others
+    const locked = checkLoginAttempt("10.0.1.99", "ada");
+    assert.equal(locked.allowed, false);
+    assert.ok(!locked.allowed && locked.retryAfterMs > 0);
+    assert.equal(checkLoginAttempt("10.0.1.99", "grace").allowed, true);
+  });
+
+  it("counts failures per address across account names", () => {
+    for (let i = 0; i < 30; i++) recordLoginFailure("10.0.2.1", `user-${i}`);
+    assert.equal(checkLoginAttempt("10.0.2.1", "someone-else").allowed, false);
+    assert.equal(checkLoginAttempt("10.0.2.2", "someone-else").allowed, true);
+  });
+});
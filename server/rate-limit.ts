@@ -0,0 +1,118 @@
+// Token-bucket rate limiting shared by WebSocket frames and relay pushes.
+// Buckets are keyed by kind, room and client key (session or IP), so extra tabs
+// or sockets from the same session draw on the same budget.
+import type { RateLimitBucket, RateLimitConfig, RateLimitKind, RateLimitUpdate } from "@shared/schema";
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  keystroke: { capacity: 40, refillPerMinute: 600 },
+  message: { capacity: 5, refillPerMinute: 20 },
+  join: { capacity: 5, refillPerMinute: 10 },
+  presence: { capacity: 10, refillPerMinute: 30 }, // Clients ping about four times a minute
+  relay: { capacity: 30, refillPerMinute: 60 },
+};
+
+// Several people can share one address (NAT, campus networks), so IP buckets are roomier
+const IP_BUDGET_MULTIPLIER = 3;
+// Fresh socket sessions per address; each one starts clear of session bans
+const SESSION_MINT_LIMIT: RateLimitBucket = { capacity: 20, refillPerMinute: 6 };
+// Failed logins per account name (and three times that per address); each guess costs a scrypt run
+const LOGIN_FAILURE_LIMIT: RateLimitBucket = { capacity: 10, refillPerMinute: 2 };
+const SWEEP_INTERVAL = 60 * 1000;
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  capacity: number;
+  perMs: number; // Refill rate
+}
+
+const buckets = new Map<string, BucketState>();
+
+const bucketLimits = (settings: RateLimitBucket, key: string) => {
+  const multiplier = key.startsWith("ip:") ? IP_BUDGET_MULTIPLIER : 1;
+  return { capacity: settings.capacity * multiplier, perMs: (settings.refillPerMinute * multiplier) / 60000 };
+};
+
+const refill = (id: string, capacity: number, perMs: number, now: number): BucketState => {
+  const bucket = buckets.get(id);
+  if (!bucket) {
+    return { tokens: capacity, updatedAt: now, capacity, perMs };
+  }
+  return {
+    tokens: Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs),
+    updatedAt: now,
+    capacity,
+    perMs,
+  };
+};
+
+type BucketLimit = { id: string; capacity: number; perMs: number };
+
+const refillAll = (limits: BucketLimit[]) => {
+  const now = Date.now();
+  return limits.map(({ id, capacity, perMs }) => ({ id, state: refill(id, capacity, perMs, now) }));
+};
+
+// Allowed when every bucket holds a token; otherwise how long until they all do
+const shortfall = (states: { state: BucketState }[]): RateLimitResult => {
+  const empty = states.filter(({ state }) => state.tokens < 1);
+  if (empty.length === 0) return { allowed: true };
+  const retryAfterMs = Math.max(...empty.map(({ state }) => Math.ceil((1 - state.tokens) / state.perMs)));
+  return { allowed: false, retryAfterMs };
+};
+
+// Takes one token from every bucket, or none if any of them is empty
+const takeTokens = (limits: BucketLimit[]): RateLimitResult => {
+  const states = refillAll(limits);
+  const result = shortfall(states);
+  if (result.allowed) {
+    states.forEach(({ id, state }) => buckets.set(id, { ...state, tokens: state.tokens - 1 }));
+  }
+  return result;
+};
+
+export const consumeRateLimit = (
+  kind: RateLimitKind,
+  room: string,
+  keys: string[],
+  config: RateLimitConfig,
+): RateLimitResult =>
+  takeTokens(keys.map((key) => ({ id: `${kind}:${room}:${key}`, ...bucketLimits(config[kind], key) })));
+
+export const consumeSessionMint = (ip: string): RateLimitResult =>
+  takeTokens([{
+    id: `session-mint:${ip}`,
+    capacity: SESSION_MINT_LIMIT.capacity,
+    perMs: SESSION_MINT_LIMIT.refillPerMinute / 60000,
+  }]);
+
+// Only failures cost a token, so the check before verifying a password takes none
+const loginLimits = (ip: string, username: string) =>
+  [`ip:${ip}`, `user:${username}`].map((key) => ({ id: `login:${key}`, ...bucketLimits(LOGIN_FAILURE_LIMIT, key) }));
+
+export const checkLoginAttempt = (ip: string, username: string): RateLimitResult =>
+  shortfall(refillAll(loginLimits(ip, username)));
+
+export const recordLoginFailure = (ip: string, username: string) => {
+  takeTokens(loginLimits(ip, username));
+};
+
+export const mergeRateLimits = (config: RateLimitConfig, update: RateLimitUpdate): RateLimitConfig => ({
+  keystroke: { ...config.keystroke, ...update.keystroke },
+  message: { ...config.message, ...update.message },
+  join: { ...config.join, ...update.join },
+  presence: { ...config.presence, ...update.presence },
+  relay: { ...config.relay, ...update.relay },
+});
+
+// Buckets that have refilled completely hold no state worth keeping
+setInterval(() => {
+  const now = Date.now();
+  buckets.forEach((bucket, id) => {
+    if (bucket.tokens + (now - bucket.updatedAt) * bucket.perMs >= bucket.capacity) {
+      buckets.delete(id);
+    }
+  });
+}, SWEEP_INTERVAL).unref();
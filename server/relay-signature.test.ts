@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { RELAY_SIGNATURE_TOLERANCE_MS, verifyRelaySignature } from "./relay-signature";
+
+const SECRET = "relay-secret";
+
+const sign = (body: string, timestamp: number, secret = SECRET) =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+describe("verifyRelaySignature", () => {
+  let now = 1_700_000_000_000;
+  const seconds = () => Math.floor(now / 1000);
+  // Every signature is remembered, so each test signs a body of its own
+  let pushes = 0;
+  const nextBody = () => JSON.stringify({ title: `push ${++pushes}` });
+
+  beforeEach(() => {
+    mock.method(Date, "now", () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const verify = (body: string | undefined, signature: string | undefined, timestamp: string | undefined) =>
+    verifyRelaySignature(SECRET, body === undefined ? undefined : Buffer.from(body), signature, timestamp);
+
+  it("accepts a valid signature, in either hex case", () => {
+    const body = nextBody();
+    assert.deepEqual(verify(body, sign(body, seconds()), String(seconds())), { ok: true });
+
+    const other = nextBody();
+    assert.deepEqual(verify(other, sign(other, seconds()).toUpperCase().replace("SHA256=", "sha256="), String(seconds())), { ok: true });
+  });
+
+  it("signs an empty body when there is none", () => {
+    assert.deepEqual(verify(undefined, sign("", seconds() + 1), String(seconds() + 1)), { ok: true });
+  });
+
+  it("rejects missing or malformed signatures", () => {
+    const body = nextBody();
+    assert.equal(verify(body, undefined, String(seconds())).ok, false);
+    const unprefixed = sign(body, seconds()).slice("sha256=".length);
+    assert.deepEqual(
+      verify(body, unprefixed, String(seconds())),
+      { ok: false, reason: "missing_signature", error: "Missing relay signature" },
+    );
+  });
+
+  it("rejects signatures made with another secret, over another body or timestamp", () => {
+    const body = nextBody();
+    const timestamp = String(seconds());
+    for (const signature of [sign(body, seconds(), "wrong-secret"), sign(`${body} `, seconds()), sign(body, seconds() - 1), "sha256=abc"]) {
+      const result = verify(body, signature, timestamp);
+      assert.ok(!result.ok && result.reason === "bad_signature", signature);
+    }
+  });
+
+  it("rejects missing, malformed and out-of-window timestamps", () => {
+    const body = nextBody();
+    for (const timestamp of [undefined, "", "soon", "1700000000.5"]) {
+      const result = verify(body, sign(body, seconds()), timestamp);
+      assert.ok(!result.ok && result.reason === "invalid_timestamp", String(timestamp));
+    }
+
+    const window = RELAY_SIGNATURE_TOLERANCE_MS / 1000;
+    for (const timestamp of [seconds() - window - 1, seconds() + window + 1]) {
+      const result = verify(body, sign(body, timestamp), String(timestamp));
+      assert.ok(!result.ok && result.reason === "stale_timestamp", String(timestamp));
+    }
+
+    // The edges of the window still count
+    const stale = seconds() - window;
+    assert.deepEqual(verify(body, sign(body, stale), String(stale)), { ok: true });
+  });
+
+  it("accepts each signature once", () => {
+    const body = nextBody();
+    const signature = sign(body, seconds());
+    assert.deepEqual(verify(body, signature, String(seconds())), { ok: true });
+
+    now += 60 * 1000;
+    assert.deepEqual(
+      verify(body, signature, String(seconds() - 60)),
+      { ok: false, reason: "replayed", error: "Relay payload was already delivered" },
+    );
+    // The same body signed again is a new push
+    assert.deepEqual(verify(body, sign(body, seconds()), String(seconds())), { ok: true });
+  });
+});
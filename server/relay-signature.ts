@@ -0,0 +1,74 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Signed relay pushes carry
+//   x-relay-timestamp: unix seconds when the push was signed
+//   x-relay-signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+// Each signature is accepted once, and only within the tolerance window.
+export const RELAY_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+const MAX_SEEN_SIGNATURES = 10000;
+
+export type RelaySignatureFailure =
+  | "missing_signature"
+  | "invalid_timestamp"
+  | "stale_timestamp"
+  | "bad_signature"
+  | "replayed";
+
+const FAILURE_MESSAGES: Record<RelaySignatureFailure, string> = {
+  missing_signature: "Missing relay signature",
+  invalid_timestamp: "Missing or invalid relay timestamp",
+  stale_timestamp: "Relay timestamp is outside the allowed window",
+  bad_signature: "Relay signature does not match",
+  replayed: "Relay payload was already delivered",
+};
+
+export type RelaySignatureResult =
+  | { ok: true }
+  | { ok: false; reason: RelaySignatureFailure; error: string };
+
+// Signatures seen inside the window -> when they can be forgotten
+const seenSignatures = new Map<string, number>();
+
+const fail = (reason: RelaySignatureFailure): RelaySignatureResult => ({
+  ok: false,
+  reason,
+  error: FAILURE_MESSAGES[reason],
+});
+
+const rememberSignature = (signature: string, now: number) => {
+  seenSignatures.forEach((expiresAt, seen) => {
+    if (expiresAt <= now) seenSignatures.delete(seen);
+  });
+  if (seenSignatures.size >= MAX_SEEN_SIGNATURES) {
+    const oldest = seenSignatures.keys().next().value;
+    if (oldest !== undefined) seenSignatures.delete(oldest);
+  }
+  // Timestamps up to the tolerance in the future are accepted, so keep entries for both sides of the window
+  seenSignatures.set(signature, now + RELAY_SIGNATURE_TOLERANCE_MS * 2);
+};
+
+export const verifyRelaySignature = (
+  secret: string,
+  rawBody: Buffer | undefined,
+  signatureHeader: string | undefined,
+  timestampHeader: string | undefined,
+): RelaySignatureResult => {
+  const signature = signatureHeader?.startsWith("sha256=") ? signatureHeader.slice("sha256=".length) : undefined;
+  if (!signature) return fail("missing_signature");
+
+  const timestamp = Number(timestampHeader);
+  if (!timestampHeader || !Number.isInteger(timestamp)) return fail("invalid_timestamp");
+
+  const now = Date.now();
+  if (Math.abs(now - timestamp * 1000) > RELAY_SIGNATURE_TOLERANCE_MS) return fail("stale_timestamp");
+
+  const expected = Buffer.from(
+    createHmac("sha256", secret).update(`${timestampHeader}.`).update(rawBody ?? Buffer.alloc(0)).digest("hex"),
+  );
+  const actual = Buffer.from(signature.toLowerCase());
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return fail("bad_signature");
+
+  if (seenSignatures.has(expected.toString())) return fail("replayed");
+  rememberSignature(expected.toString(), now);
+  return { ok: true };
+};
@@ -0,0 +1,258 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { WebSocket } from "ws";
+import { createInProcessBus } from "./broadcast-bus";
+import { storage } from "./storage";
+import { WS_CLOSE_BANNED, WS_CLOSE_KICKED } from "@shared/schema";
+
+const ADMIN_TOKEN = "test-admin-token";
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+// Polls an async read until its value passes, for state that arrives over the bus
+const eventually = async <T>(read: () => Promise<T>, done: (value: T) => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  let value = await read();
+  while (!done(value) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    value = await read();
+  }
+  return value;
+};
+
+interface Client {
+  frames: Array<Record<string, unknown>>;
+  closed: Promise<number>;
+  send: (frame: Record<string, unknown>) => void;
+  close: () => void;
+}
+
+// Two instances in one process, sharing a bus the way separate servers share Redis.
+// Storage is the shared in-memory store, so anything that still differs between the
+// two comes from a per-instance cache the bus failed to update.
+describe("registerRoutes across instances", () => {
+  const servers: Server[] = [];
+  const clients: WebSocket[] = [];
+  let a: string;
+  let b: string;
+
+  before(async () => {
+    // Read when the module loads
+    process.env.ADMIN_TOKEN = ADMIN_TOKEN;
+    const { registerRoutes } = await import("./routes");
+    const bus = createInProcessBus();
+
+    const start = async () => {
+      const app = express();
+      app.use(express.json());
+      const server = await registerRoutes(app, bus);
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      servers.push(server);
+      return `127.0.0.1:${(server.address() as AddressInfo).port}`;
+    };
+    a = await start();
+    b = await start();
+  });
+
+  after(async () => {
+    clients.forEach((socket) => socket.terminate());
+    await Promise.all(servers.map((server) => new Promise<void>((resolve) => server.close(() => resolve()))));
+  });
+
+  const request = (host: string, method: string, path: string, body?: unknown, headers: Record<string, string> = {}) =>
+    fetch(`http://${host}${path}`, {
+      method,
+      headers: { "content-type": "application/json", "x-admin-token": ADMIN_TOKEN, ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const join = async (
+    host: string,
+    username: string,
+    room: string,
+    headers: Record<string, string> = {},
+    joinFields: Record<string, unknown> = {},
+  ): Promise<Client> => {
+    const response = await request(host, "POST", "/api/ws-token", { username, room }, headers);
+    const { token } = (await response.json()) as { token: string };
+    const socket = new WebSocket(`ws://${host}/ws?token=${encodeURIComponent(token)}`, { headers });
+    clients.push(socket);
+
+    const frames: Array<Record<string, unknown>> = [];
+    socket.on("message", (data) => frames.push(JSON.parse(data.toString())));
+    const closed = new Promise<number>((resolve) => socket.on("close", (code) => resolve(code)));
+    await new Promise((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+
+    const send = (frame: Record<string, unknown>) => socket.send(JSON.stringify({ username, room, ...frame }));
+    socket.send(JSON.stringify({ type: "hello", version: 2, capabilities: ["rejections", "replay"] }));
+    send({ type: "join", browserFingerprint: `fp-${username}`, ...joinFields });
+    return { frames, closed, send, close: () => socket.close() };
+  };
+
+  const presence = async (host: string, room: string) => {
+    const response = await request(host, "GET", `/api/rooms/${room}/presence`);
+    const { users } = (await response.json()) as { users: Array<{ username: string }> };
+    return users.map((user) => user.username).sort();
+  };
+
+  it("delivers messages and presence between instances", async () => {
+    const alice = await join(a, "alice", "lobby");
+    const bob = await join(b, "bob", "lobby");
+
+    const rosters = await eventually(
+      async () => [await presence(a, "lobby"), await presence(b, "lobby")],
+      (value) => value.every((roster) => roster.length === 2),
+    );
+    assert.deepEqual(rosters, [["alice", "bob"], ["alice", "bob"]]);
+
+    alice.send({ type: "newMessage", content: "hello from a" });
+    await waitFor(() => bob.frames.some((frame) => frame.type === "newMessage" && frame.content === "hello from a"));
+  });
+
+  it("applies a mute made on one instance to sockets on the other", async () => {
+    const carol = await join(b, "carol", "muted-room");
+    await waitFor(() => carol.frames.some((frame) => frame.type === "presence"));
+
+    const response = await request(a, "POST", "/api/rooms/muted-room/moderation/mute", { username: "carol", durationMinutes: 5 });
+    assert.equal(response.status, 200);
+    await waitFor(() => carol.frames.some((frame) => frame.type === "moderation" && frame.moderationAction === "mute"));
+
+    carol.send({ type: "newMessage", content: "can anyone hear me", nonce: "n1" });
+    await waitFor(() => carol.frames.some((frame) => frame.type === "rejected" && frame.rejectionReason === "muted"));
+  });
+
+  it("kicks and bans users connected to the other instance", async () => {
+    const dave = await join(b, "dave", "strict-room");
+    await eventually(() => presence(a, "strict-room"), (users) => users.includes("dave"));
+
+    const kicked = await request(a, "POST", "/api/rooms/strict-room/moderation/kick", { username: "dave", reason: "cool off" });
+    assert.equal(kicked.status, 200);
+    assert.equal(await dave.closed, WS_CLOSE_KICKED);
+
+    const again = await join(b, "dave", "strict-room");
+    await eventually(() => presence(a, "strict-room"), (users) => users.includes("dave"));
+    // The instance handling the ban only knows dave's session from the bus
+    const banned = await request(a, "POST", "/api/rooms/strict-room/moderation/ban", { username: "dave", by: ["session", "fingerprint"] });
+    assert.equal(banned.status, 201);
+    assert.equal(await again.closed, WS_CLOSE_BANNED);
+  });
+
+  it("keeps IP bans when the client rewrites X-Forwarded-For", async () => {
+    const hank = await join(a, "hank", "ip-room", { "x-forwarded-for": "203.0.113.7" });
+    await waitFor(() => hank.frames.some((frame) => frame.type === "presence"));
+    const banned = await request(a, "POST", "/api/rooms/ip-room/moderation/ban", { username: "hank", by: ["ip"] });
+    assert.equal(banned.status, 201);
+    assert.equal(((await banned.json()) as { ip: string | null }).ip, "127.0.0.1");
+    assert.equal(await hank.closed, WS_CLOSE_BANNED);
+
+    // New session, new fingerprint and a new forwarded address: only the socket address is left
+    const disguised = await join(a, "not-hank", "ip-room", { "x-forwarded-for": "198.51.100.23" });
+    assert.equal(await disguised.closed, WS_CLOSE_BANNED);
+  });
+
+  it("locks a room on every instance", async () => {
+    // Instance B caches the room as public before the lock arrives
+    const erin = await join(b, "erin", "vault");
+    await waitFor(() => erin.frames.some((frame) => frame.type === "presence"));
+
+    const response = await request(a, "PUT", "/api/rooms/vault/passphrase", { passphrase: "open sesame" });
+    assert.equal(response.status, 200);
+
+    const frank = await join(b, "frank", "vault");
+    await waitFor(() => frank.frames.some((frame) => frame.type === "accessDenied"));
+    assert.equal((await request(b, "GET", "/api/rooms/vault/presence")).status, 403);
+  });
+
+  it("throttles passphrase guesses over HTTP", async () => {
+    assert.equal((await request(a, "PUT", "/api/rooms/safe/passphrase", { passphrase: "correct horse" })).status, 200);
+    const guess = (passphrase: string) =>
+      request(b, "GET", "/api/rooms/safe/presence", undefined, { "x-room-passphrase": passphrase });
+
+    // The address gets three sessions' worth of joins
+    for (let i = 0; i < 15; i++) assert.equal((await guess(`guess ${i}`)).status, 403);
+    const throttled = await guess("correct horse");
+    assert.equal(throttled.status, 429);
+    assert.ok(Number(throttled.headers.get("retry-after")) > 0);
+  });
+
+  it("audits rejected messages but not rejected keystrokes", async () => {
+    const filters = { blocklist: { enabled: true, action: "reject", words: ["darn"] } };
+    assert.equal((await request(a, "PUT", "/api/admin/rooms/clean-room/filters", filters)).status, 200);
+    const ivy = await join(a, "ivy", "clean-room");
+    await waitFor(() => ivy.frames.some((frame) => frame.type === "presence"));
+
+    ["d", "da", "dar", "darn", "darn it"].forEach((content) => ivy.send({ type: "keystroke", content, isTyping: true }));
+    ivy.send({ type: "newMessage", content: "darn it", nonce: "n2" });
+    await waitFor(() => ivy.frames.some((frame) => frame.type === "rejected" && frame.nonce === "n2"));
+
+    const events = await eventually(
+      async () => (await (await request(a, "GET", "/api/admin/audit?room=clean-room&reason=blocked_word")).json()) as Array<{ detail: string }>,
+      (rows) => rows.length > 0,
+    );
+    assert.equal(events.length, 1);
+  });
+
+  it("reads before/after as message ids only with the id: prefix", async () => {
+    const start = Date.now();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    for (const content of ["one", "two", "three"]) {
+      await storage.addMessage({ username: "jo", content, room: "paged-room", isTyping: false, xPosition: 0, yPosition: 0 });
+    }
+    const page = async (query: string) => {
+      const response = await request(a, "GET", `/api/messages/paged-room?${query}`);
+      assert.equal(response.status, 200);
+      return (await response.json()) as { messages: Array<{ content: string }>; nextCursor: string | null };
+    };
+
+    const newest = await page("limit=2");
+    assert.deepEqual(newest.messages.map((m) => m.content), ["two", "three"]);
+    assert.match(newest.nextCursor ?? "", /^id:\d+$/);
+    assert.deepEqual((await page(`before=${newest.nextCursor}`)).messages.map((m) => m.content), ["one"]);
+
+    // Epoch milliseconds are an instant, as they are for since/until
+    assert.deepEqual((await page(`before=${start}`)).messages, []);
+    assert.equal((await page(`after=${start}`)).messages.length, 3);
+    assert.equal((await request(a, "GET", "/api/messages/paged-room?before=id:x")).status, 400);
+  });
+
+  it("replays missed messages with the sender's nonce", async () => {
+    const kim = await join(a, "kim", "replay-room");
+    await waitFor(() => kim.frames.some((frame) => frame.type === "presence"));
+    const { replayEpoch, seq } = kim.frames.find((frame) => frame.type === "presence")!;
+
+    kim.send({ type: "newMessage", content: "did this arrive", yPosition: 0.5, nonce: "n3" });
+    await waitFor(() => kim.frames.some((frame) => frame.type === "ack" && frame.nonce === "n3"));
+
+    // Everyone catching up gets it, so a sender whose ack was lost can match it to its own bubble
+    const again = await join(a, "lee", "replay-room", {}, { lastSeq: seq, replayEpoch });
+    await waitFor(() => again.frames.some((frame) => frame.type === "presence"));
+    const replayed = again.frames.filter((frame) => frame.type === "newMessage");
+    assert.deepEqual(replayed.map((frame) => [frame.content, frame.nonce]), [["did this arrive", "n3"]]);
+  });
+
+  it("rate-limits pings and away toggles", async () => {
+    const gina = await join(a, "gina", "busy-room");
+    await waitFor(() => gina.frames.some((frame) => frame.type === "presence"));
+
+    for (let i = 0; i < 15; i++) gina.send({ type: "ping", nonce: `p${i}` });
+    gina.send({ type: "away", away: true });
+    await waitFor(() => gina.frames.filter((frame) => frame.type === "rejected").length === 6);
+
+    assert.equal(gina.frames.filter((frame) => frame.type === "pong").length, 10);
+    assert.ok(gina.frames
+      .filter((frame) => frame.type === "rejected")
+      .every((frame) => frame.rejectionReason === "rate_limit"));
+  });
+});
@@ -1,8 +1,86 @@
-import type { Express } from "express";
-import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import { wsMessageSchema, type WSMessage, type UserSession } from "@shared/schema";
+import express, { type Express, type RequestHandler } from "express";
+import { createServer, type IncomingMessage, type Server } from "http";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { fromZodError } from "zod-validation-error";
+import { storage, getHistoryLimit, type MessageCursor, type MessageQuery, type SearchFilters } from "./storage";
+import { hashPassphrase, verifyPassphrase } from "./passphrase";
+import {
+  mintSocketToken,
+  newSocketSessionId,
+  previousSocketSession,
+  sessionMiddleware,
+  verifySocketToken,
+  type SocketToken,
+} from "./auth";
+import { DEFAULT_CONTENT_FILTERS, mergeContentFilters, runContentFilters } from "./content-filters";
+import {
+  DEFAULT_RATE_LIMITS,
+  checkLoginAttempt,
+  consumeRateLimit,
+  consumeSessionMint,
+  mergeRateLimits,
+  recordLoginFailure,
+  type RateLimitResult,
+} from "./rate-limit";
+import { verifyRelaySignature } from "./relay-signature";
+import { fetchFeed, type FeedEntry } from "./feeds";
+import { createBroadcastBus, type BroadcastBus } from "./broadcast-bus";
+import {
+  MAX_TYPIST_ID,
+  applyTextEdit,
+  decodeClientKeystroke,
+  diffText,
+  encodeIntern,
+  encodeServerKeystroke,
+} from "@shared/keystroke-codec";
+import {
+  TRANSCRIPT_FORMATS,
+  formatTranscriptLine,
+  isTranscriptFormat,
+  parseJsonlTranscript,
+  transcriptPreamble,
+} from "./transcript";
+import {
+  clientFrameSchema,
+  retentionPolicySchema,
+  roomPassphraseSchema,
+  accountCredentialsSchema,
+  socketTokenRequestSchema,
+  kickRequestSchema,
+  muteRequestSchema,
+  banRequestSchema,
+  contentFilterUpdateSchema,
+  rateLimitUpdateSchema,
+  relaySourceIdSchema,
+  relaySourceSchema,
+  feedSubscriptionSchema,
+  AUDIT_REASONS,
+  CLIENT_FRAME_TYPES,
+  WS_CAPABILITIES,
+  WS_PROTOCOL_VERSION,
+  WS_CLOSE_TOKEN_REJECTED,
+  WS_CLOSE_KICKED,
+  WS_CLOSE_BANNED,
+  parseMessageIdCursor,
+  type Message,
+  type PresenceUser,
+  type RoomBan,
+  type ContentFilterConfig,
+  type RejectionReason,
+  type RateLimitConfig,
+  type RateLimitKind,
+  type RelaySource,
+  type FeedSubscription,
+  type AuditReason,
+  type InsertAuditEvent,
+  type RoomSummary,
+  type WSMessage,
+  type ServerFrame,
+  type ProtocolErrorCode,
+  type WsCapability,
+  type UserSession,
+} from "@shared/schema";
 
 interface ExtendedWebSocket extends WebSocket {
   username?: string;
@@ -10,16 +88,278 @@ interface ExtendedWebSocket extends WebSocket {
   sessionId?: string;
   browserFingerprint?: string;
   lastMessageTime?: number;
-  messageCount?: number;
-  lastResetTime?: number;
+  userColor?: string;
+  isTyping?: boolean;
+  typingTimeout?: NodeJS.Timeout;
+  unlockedRooms?: Set<string>; // Private rooms this socket has given the passphrase for
+  account?: string; // Registered username from the login cookie sent with the upgrade
+  token?: SocketToken; // Verified claims of the token presented on upgrade
+  ip?: string;
+  rateLimited?: boolean; // Inside a throttled streak, which is audited once
+  isAlive?: boolean; // Answered the last protocol-level ping
+  away?: boolean;
+  protocolVersion?: number; // Negotiated in hello; unset for version 1 clients that never sent one
+  capabilities?: Set<WsCapability>; // Unset means everything, as version 1 clients expect
+  fontSize?: string;
+  typingBase?: string; // Our text as of this socket's last keystroke, which its binary edits apply to
+  knownTypists?: Set<number>; // Typist ids this socket has been sent intern frames for
+  syncedTypists?: Set<string>; // "room:username" typists whose current text this socket has
 }
 
-// Session management
-const activeSessions = new Map<string, UserSession>(); // sessionId -> session
-const usernameOwnership = new Map<string, string>(); // "room:username" -> sessionId
+// Authoring session of a message that can still be edited or retracted
+type MessageOwner = { sessionId: string; room: string; createdAt: number };
+
+// Events shared with the other instances over the broadcast bus. Room settings, moderation
+// and ownership changes carry their new value so caches update without a storage round trip.
+type BusEvent =
+  | { kind: 'broadcast'; room: string; message: Partial<WSMessage> }
+  | { kind: 'presence'; room: string; users: PresenceUser[] } // The sender's local roster for one room
+  | { kind: 'claim'; session: UserSession }
+  | { kind: 'heartbeat'; rooms: Record<string, PresenceUser[]>; sessions: UserSession[] }
+  | { kind: 'hello' } // A new instance asking the others for a heartbeat
+  | { kind: 'kick'; room: string; username: string; reason: string }
+  | { kind: 'mute'; room: string; username: string; until: number | null }
+  | { kind: 'ban'; ban: RoomBan }
+  | { kind: 'unban'; room: string; id: number }
+  | { kind: 'passphrase'; room: string; hash: string | null }
+  | { kind: 'contentFilters'; room: string; config: ContentFilterConfig | null }
+  | { kind: 'rateLimits'; room: string; config: RateLimitConfig | null }
+  | { kind: 'registered'; username: string }
+  | { kind: 'messageOwner'; id: number; owner: MessageOwner | null }
+  | { kind: 'feedPolled'; id: number; entryIds: string[] };
+
 const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+const EDIT_WINDOW = 90 * 1000; // Longest a bubble stays on screen
+const REPLAY_BUFFER_SIZE = 200; // Frames kept per room for reconnecting clients (never older than EDIT_WINDOW)
+const TYPING_IDLE_TIMEOUT = 5000; // Typing indicator clears after 5s without keystrokes
+const ACTIVITY_WINDOW_MINUTES = 10; // Window for the directory's messages-per-minute rate
 const HOCKER_RELAY_ROOM = process.env.HOCKER_RELAY_ROOM || "global";
 const HOCKER_PUSH_TOKEN = process.env.HOCKER_PUSH_TOKEN || "";
+// When set, HN pushes must be HMAC-signed with it and HOCKER_PUSH_TOKEN is not checked
+const HOCKER_SIGNING_SECRET = process.env.HOCKER_SIGNING_SECRET || "";
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || "";
+const MAX_HISTORY_PAGE = 500;
+const HISTORY_PAGE_PARAMS = ["before", "after", "since", "until", "limit"];
+const MAX_SEARCH_RESULTS = 200;
+const DEFAULT_AUDIT_PAGE = 100;
+const MAX_AUDIT_PAGE = 500;
+const EXPORT_PAGE_SIZE = 500;
+const REGISTERED_NAME_CACHE_SIZE = 5000;
+const MAX_RELAY_CONTENT = 280; // Webhook bodies can be long; a bubble should stay readable
+const FEED_POLL_INTERVAL = Number(process.env.FEED_POLL_INTERVAL_MS) || 5 * 60 * 1000;
+const MAX_FEED_ENTRIES_PER_POLL = 5; // A burst of new entries shouldn't flood the room
+const MAX_CLOSE_REASON_LENGTH = 120; // WebSocket close reasons are capped at 123 bytes
+const SOCKET_PING_INTERVAL = Number(process.env.WS_PING_INTERVAL_MS) || 30 * 1000; // Unanswered for a round means dead
+const CLIENT_PING_INTERVAL = Number(process.env.WS_CLIENT_PING_INTERVAL_MS) || 15 * 1000; // How often clients measure latency
+const BUS_HEARTBEAT_INTERVAL = 15 * 1000;
+const BUS_INSTANCE_TIMEOUT = 3 * BUS_HEARTBEAT_INTERVAL; // Rosters of silent instances are dropped
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS) || 0; // Proxies in front of us that append to X-Forwarded-For
+
+// Without a configured token nobody is an admin
+const isAdminRequest = (req: express.Request) =>
+  Boolean(ADMIN_TOKEN) && tokensMatch(req.header('x-admin-token') || "", ADMIN_TOKEN);
+
+// Admin routes stay closed until ADMIN_TOKEN is set
+const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!ADMIN_TOKEN) {
+    res.status(403).json({ error: "Admin API is disabled; set ADMIN_TOKEN to enable it" });
+    return;
+  }
+  if (!isAdminRequest(req)) {
+    res.status(401).json({ error: "Unauthorized admin token" });
+    return;
+  }
+  next();
+};
+
+// Moderators are registered accounts assigned to the room by an admin
+const isRoomModerator = async (req: express.Request, room: string) => {
+  const account = req.session.account?.username;
+  if (!account) return false;
+  return (await storage.getRoomModerators(room)).includes(account);
+};
+
+// Room moderators are registered accounts; the admin token also passes when one is set
+const requireModerator: RequestHandler = async (req, res, next) => {
+  if (isAdminRequest(req)) {
+    next();
+    return;
+  }
+
+  try {
+    if (await isRoomModerator(req, req.params.room)) {
+      next();
+      return;
+    }
+    res.status(403).json({ error: "Moderator access required" });
+  } catch (error) {
+    console.error("[moderation] moderator check failed", error);
+    res.status(500).json({ error: 'Failed to check moderator access' });
+  }
+};
+
+const closeReason = (text: string) =>
+  text.length > MAX_CLOSE_REASON_LENGTH ? `${text.slice(0, MAX_CLOSE_REASON_LENGTH - 1)}…` : text;
+
+// Shown to the sender next to an undelivered bubble
+const REJECTION_MESSAGES: Record<RejectionReason, string> = {
+  rate_limit: "You're sending messages too fast.",
+  too_long: "Message is too long.",
+  repeated_chars: "Message repeats the same character too many times.",
+  special_chars: "Message is mostly symbols.",
+  blocked_word: "Message contains a blocked word.",
+  disallowed_link: "Links to that site aren't allowed in this room.",
+  out_of_scope: "Message doesn't match your current name or room.",
+  muted: "You are muted in this room.",
+  edit_rejected: "That message can no longer be edited.",
+  retract_rejected: "That message can no longer be retracted.",
+};
+
+// Which token bucket each client frame draws from; leave frames are free
+const FRAME_RATE_LIMITS: Partial<Record<WSMessage['type'], RateLimitKind>> = {
+  keystroke: "keystroke",
+  newMessage: "message",
+  editMessage: "message",
+  deleteMessage: "message",
+  join: "join",
+  away: "presence",
+  ping: "presence",
+};
+
+// Optional frames, only sent to negotiated clients that asked for them
+const FRAME_CAPABILITIES: Partial<Record<WSMessage['type'], WsCapability>> = {
+  keystroke: "keystrokes",
+  presenceDiff: "presence",
+  rejected: "rejections",
+};
+
+// Version 1 clients get every JSON stream but can't read binary frames
+const hasCapability = (ws: ExtendedWebSocket, capability: WsCapability) =>
+  ws.capabilities ? ws.capabilities.has(capability) : capability !== "binaryKeystrokes";
+
+const canReceive = (ws: ExtendedWebSocket, type: WSMessage['type'] | undefined) => {
+  const capability = type && FRAME_CAPABILITIES[type];
+  return !capability || hasCapability(ws, capability);
+};
+
+const sendProtocolError = (ws: ExtendedWebSocket, code: ProtocolErrorCode, error: string, raw?: unknown) => {
+  const { type, nonce } = (typeof raw === 'object' && raw !== null ? raw : {}) as { type?: unknown; nonce?: unknown };
+  const frame: ServerFrame = {
+    type: 'error',
+    code,
+    error,
+    frameType: typeof type === 'string' ? type : undefined,
+    nonce: typeof nonce === 'string' ? nonce : undefined,
+  };
+  ws.send(JSON.stringify(frame));
+};
+
+// Expands a binary keystroke edit into the JSON frame it stands for; the token names the user and room
+const readBinaryKeystroke = (ws: ExtendedWebSocket, data: RawData): Partial<WSMessage> | undefined => {
+  if (!hasCapability(ws, 'binaryKeystrokes')) {
+    sendProtocolError(ws, 'invalid_frame', 'Binary frames need the binaryKeystrokes capability');
+    return undefined;
+  }
+
+  const bytes = Array.isArray(data) ? Buffer.concat(data) : new Uint8Array(data);
+  const edit = decodeClientKeystroke(bytes);
+  const content = edit && (edit.reset ? edit.insert : applyTextEdit(ws.typingBase ?? '', edit));
+  if (!edit || content === null) {
+    sendProtocolError(ws, 'invalid_frame', 'Keystroke edit does not fit the current text; send it in full', { type: 'keystroke' });
+    return undefined;
+  }
+
+  return {
+    type: 'keystroke',
+    username: ws.token!.username,
+    room: ws.token!.room,
+    content,
+    isTyping: edit.isTyping,
+    yPosition: edit.yPosition,
+    userColor: ws.userColor,
+    fontSize: ws.fontSize,
+  };
+};
+
+// Lazily built, then shared by every recipient
+const once = <T>(make: () => T) => {
+  let value: T | undefined;
+  return () => (value ??= make());
+};
+
+// Broadcasts that change what is on screen, kept for replay to reconnecting clients
+const REPLAYED_FRAMES = new Set<WSMessage['type']>(["newMessage", "editMessage", "deleteMessage"]);
+
+// The address bans and rate limits key on. Clients can write anything into X-Forwarded-For,
+// so only the entries our own proxies appended count: with TRUSTED_PROXY_HOPS set, the
+// client is the address the outermost trusted proxy saw, counted from the right.
+const clientIp = (req: IncomingMessage) => {
+  if (TRUSTED_PROXY_HOPS === 0) return req.socket.remoteAddress;
+
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] || req.socket.remoteAddress;
+};
+
+// Accepts ISO strings or epoch milliseconds
+const parseInstant = (value: string): Date | undefined => {
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+// "id:<n>" names a message (what nextCursor hands out); anything else is read as an instant
+const parseCursor = (value: string): MessageCursor | undefined => {
+  const id = parseMessageIdCursor(value);
+  if (id !== undefined) return { id };
+  const timestamp = parseInstant(value);
+  return timestamp ? { timestamp } : undefined;
+};
+
+const parseHistoryQuery = (
+  params: Record<string, unknown>,
+  defaultLimit: number,
+): { query: MessageQuery } | { error: string } => {
+  const read = (name: string) => typeof params[name] === "string" ? params[name] as string : undefined;
+  const query: MessageQuery = { limit: defaultLimit };
+
+  for (const name of ["before", "after"] as const) {
+    const value = read(name);
+    if (value === undefined) continue;
+    const cursor = parseCursor(value);
+    if (!cursor) return { error: `Invalid ${name} cursor` };
+    query[name] = cursor;
+  }
+
+  for (const name of ["since", "until"] as const) {
+    const value = read(name);
+    if (value === undefined) continue;
+    const instant = parseInstant(value);
+    if (!instant) return { error: `Invalid ${name} timestamp` };
+    query[name] = instant;
+  }
+
+  const limit = read("limit");
+  if (limit !== undefined) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1) return { error: "Invalid limit" };
+    query.limit = Math.min(parsed, MAX_HISTORY_PAGE);
+  }
+
+  return { query };
+};
+
+type RelayedMessage = {
+  username: string;
+  content: string;
+  sourceUrl?: string;
+  sourceLabel?: string;
+  sourceBadge?: string;
+  storyUrl?: string;
+  storyLabel?: string;
+};
 
 type HockerLatestItem = {
   hnId: number;
@@ -31,10 +371,44 @@ type HockerLatestItem = {
   sourceUrl?: string | null;
 };
 
+// Reads a dot path such as "pull_request.title" out of a webhook payload
+const readPayloadField = (payload: unknown, path?: string): string | undefined => {
+  if (!path) return undefined;
+  const value = path.split(".").reduce<unknown>(
+    (node, key) => (node !== null && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined),
+    payload,
+  );
+  return typeof value === "string" || typeof value === "number" ? String(value).trim() || undefined : undefined;
+};
+
+const tokensMatch = (provided: string, expected: string) => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+// Signed pushes that fail verification get a 401 naming the reason, which is also logged
+const verifySignedPush = (req: express.Request, res: express.Response, source: string, secret: string) => {
+  const result = verifyRelaySignature(secret, req.rawBody, req.header('x-relay-signature'), req.header('x-relay-timestamp'));
+  if (!result.ok) {
+    console.log(`[relay] rejected push from ${source}: ${result.reason}`);
+    res.status(401).json({ error: result.error, reason: result.reason });
+  }
+  return result.ok;
+};
+
+// Relay sources are listed without their shared secret
+const publicRelaySource = ({ token, ...source }: RelaySource) => source;
+
+const truncate = (value: string, max: number) => {
+  const chars = Array.from(value);
+  return chars.length > max ? `${chars.slice(0, max - 1).join("")}…` : value;
+};
+
 const decodeEntities = (value: string) =>
   value
-    .replace(/&#x27;/g, "'")
-    .replace(/&#39;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, decimal: string) => String.fromCodePoint(Number(decimal)))
     .replace(/&quot;/g, '"')
     .replace(/&amp;/g, "&")
     .replace(/&lt;/g, "<")
@@ -62,18 +436,132 @@ const htmlToParagraphs = (value: string) => {
     .filter(Boolean);
 };
 
-export async function registerRoutes(app: Express): Promise<Server> {
+// Each call is one server instance; instances sharing a bus share broadcasts, presence and name ownership
+export async function registerRoutes(app: Express, bus: BroadcastBus = createBroadcastBus()): Promise<Server> {
   const httpServer = createServer(app);
+  const instanceId = randomUUID();
+  app.use(sessionMiddleware);
   
-  // WebSocket server on /ws path to avoid conflicts with Vite HMR
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // WebSocket server on /ws path to avoid conflicts with Vite HMR. The login
+  // session is loaded during the upgrade so each socket knows its account.
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: (info, done) => {
+      sessionMiddleware(info.req as express.Request, {} as express.Response, () => done(true));
+    },
+  });
   
   // Track connected clients
   const clients = new Set<ExtendedWebSocket>();
   const lastRelayedVersion = new Map<number, string>();
+  // Messages that can still be edited or retracted: id -> authoring session
+  const messageOwners = new Map<number, MessageOwner>();
+  // Passphrase hashes by room (null for public rooms), cached since every frame checks them
+  const roomPassphrases = new Map<string, string | null>();
+  // Bans by room, cached for the same reason; expired entries are skipped when matching
+  const roomBanCache = new Map<string, RoomBan[]>();
+  // Content filter settings by room (null when the room uses the defaults)
+  const roomContentFilters = new Map<string, ContentFilterConfig | null>();
+  // Rate-limit quotas by room, null likewise
+  const roomRateLimits = new Map<string, RateLimitConfig | null>();
+  // Timed mutes: "room:username" -> muted until (ms)
+  const mutes = new Map<string, number>();
+  // Session management; sessions and claims from other instances arrive over the bus
+  const activeSessions = new Map<string, UserSession>(); // sessionId -> session
+  const usernameOwnership = new Map<string, string>(); // "room:username" -> sessionId
+  // Local rosters last heard from other instances
+  const remoteInstances = new Map<string, { seenAt: number; rooms: Map<string, PresenceUser[]> }>();
+
+  const publishBusEvent = (event: BusEvent) => bus.publish(JSON.stringify({ origin: instanceId, event }));
+
+  // Recent replayable frames per room, numbered as this instance delivers them. The numbering
+  // is ours alone, so clients hand back our instance id (their replayEpoch) along with lastSeq.
+  const replayBuffers = new Map<string, { seq: number; frames: Array<{ frame: Partial<WSMessage>; at: number }> }>();
+
+  const recordReplayFrame = (room: string, message: Partial<WSMessage>) => {
+    const buffer = replayBuffers.get(room) ?? { seq: 0, frames: [] };
+    const frame = { ...message, seq: buffer.seq + 1 };
+    buffer.seq = frame.seq;
+    buffer.frames.push({ frame, at: Date.now() });
+    if (buffer.frames.length > REPLAY_BUFFER_SIZE) buffer.frames.shift();
+    replayBuffers.set(room, buffer);
+    return frame;
+  };
+
+  // Binary keystrokes: typist ids for (username, colour, font size), and the text each
+  // typist last had broadcast, so the next keystroke can go out as an edit against it
+  const typistIds = new Map<string, number>();
+  const typingTexts = new Map<string, string>(); // "room:username" -> text
+
+  const typistId = (username: string, userColor?: string, fontSize?: string) => {
+    const key = JSON.stringify([username, userColor ?? '', fontSize ?? '']);
+    const existing = typistIds.get(key);
+    if (existing !== undefined) return existing;
+    if (typistIds.size > MAX_TYPIST_ID) {
+      typistIds.clear();
+      clients.forEach((client) => client.knownTypists?.clear());
+    }
+    typistIds.set(key, typistIds.size);
+    return typistIds.size - 1;
+  };
+
+  // Keystroke frames become one edit encoded once for every binary recipient; a finished or
+  // departed typist starts over, and everyone gets their next text in full
+  const trackTyping = (room: string, frame: Partial<WSMessage>) => {
+    if (!frame.username) return undefined;
+    const key = `${room}:${frame.username}`;
+    if (frame.type !== 'keystroke' || frame.content === undefined) {
+      if ((frame.type === 'newMessage' || frame.type === 'leave') && typingTexts.delete(key)) {
+        clients.forEach((client) => client.syncedTypists?.delete(key));
+      }
+      return undefined;
+    }
+
+    const { username, userColor, fontSize, content } = frame;
+    const previous = typingTexts.get(key) ?? '';
+    typingTexts.set(key, content);
+    const typist = typistId(username, userColor, fontSize);
+    const edit = { isTyping: Boolean(frame.isTyping), yPosition: frame.yPosition };
+    return {
+      key,
+      typist,
+      intern: once(() => encodeIntern({ id: typist, username, userColor, fontSize })),
+      diff: once(() => encodeServerKeystroke(typist, { ...edit, ...diffText(previous, content) })),
+      full: once(() => encodeServerKeystroke(typist, { ...edit, offset: 0, deleteCount: 0, insert: content, reset: true })),
+    };
+  };
+
+  const sendBinaryKeystroke = (client: ExtendedWebSocket, keystroke: NonNullable<ReturnType<typeof trackTyping>>) => {
+    client.knownTypists ??= new Set();
+    client.syncedTypists ??= new Set();
+    if (!client.knownTypists.has(keystroke.typist)) {
+      client.send(keystroke.intern());
+      client.knownTypists.add(keystroke.typist);
+    }
+    client.send(client.syncedTypists.has(keystroke.key) ? keystroke.diff() : keystroke.full());
+    client.syncedTypists.add(keystroke.key);
+  };
+
+  const framesSince = (room: string, lastSeq: number) => {
+    const cutoff = Date.now() - EDIT_WINDOW;
+    return (replayBuffers.get(room)?.frames ?? [])
+      .filter(({ frame, at }) => (frame.seq ?? 0) > lastSeq && at >= cutoff)
+      .map(({ frame }) => frame);
+  };
+
+  // Every dropped frame and moderator action is recorded; message content is only kept as a hash
+  const audit = ({ content, ...event }: Omit<InsertAuditEvent, 'contentHash'> & { content?: string }) => {
+    storage
+      .addAuditEvent({
+        ...event,
+        contentHash: content ? createHash('sha256').update(content).digest('hex') : null,
+      })
+      .catch((error) => console.error('[audit] failed to record event', error));
+  };
   
   // Clean up expired sessions periodically
-  setInterval(() => {
+  const sessionSweep = setInterval(() => {
     const now = Date.now();
     for (const [sessionId, session] of activeSessions.entries()) {
       if (now - session.lastSeen > SESSION_TIMEOUT) {
@@ -85,71 +573,1318 @@ export async function registerRoutes(app: Express): Promise<Server> {
         activeSessions.delete(sessionId);
       }
     }
-  }, 60000); // Check every minute
 
-  // Session management helpers
-  const validateNameOwnership = (username: string, room: string, sessionId: string, browserFingerprint: string): { allowed: boolean; error?: string } => {
-    const ownershipKey = `${room}:${username}`;
-    const currentOwner = usernameOwnership.get(ownershipKey);
-    
-    if (!currentOwner) {
-      // Name is available
-      return { allowed: true };
+    messageOwners.forEach((owner, id) => {
+      if (now - owner.createdAt > EDIT_WINDOW) {
+        messageOwners.delete(id);
+      }
+    });
+
+    mutes.forEach((until, key) => {
+      if (until <= now) {
+        mutes.delete(key);
+      }
+    });
+
+    // Counters stay so sequence numbers never go backwards within a room
+    replayBuffers.forEach((buffer) => {
+      buffer.frames = buffer.frames.filter(({ at }) => now - at <= EDIT_WINDOW);
+    });
+  }, 60000); // Check every minute
+  httpServer.on('close', () => clearInterval(sessionSweep));
+
+  // Whether a name belongs to a registered account; cached since every frame checks it
+  const registeredNames = new Map<string, boolean>();
+  const isRegisteredName = async (username: string) => {
+    const cached = registeredNames.get(username);
+    if (cached !== undefined) return cached;
+
+    const registered = Boolean(await storage.getUserByUsername(username));
+    registeredNames.set(username, registered);
+    if (registeredNames.size > REGISTERED_NAME_CACHE_SIZE) {
+      const oldestKey = registeredNames.keys().next().value;
+      if (oldestKey !== undefined) {
+        registeredNames.delete(oldestKey);
+      }
+    }
+    return registered;
+  };
+
+  // Session management helpers
+  const validateNameOwnership = (username: string, room: string, sessionId: string, browserFingerprint: string, account?: string): { allowed: boolean; error?: string } => {
+    const ownershipKey = `${room}:${username}`;
+    const currentOwner = usernameOwnership.get(ownershipKey);
+    
+    if (!currentOwner || account === username) {
+      // Name is available, or the signed-in account owns it outright
+      return { allowed: true };
+    }
+    
+    const ownerSession = activeSessions.get(currentOwner);
+    if (!ownerSession) {
+      // Owner session expired, release name
+      usernameOwnership.delete(ownershipKey);
+      return { allowed: true };
+    }
+    
+    if (currentOwner === sessionId) {
+      // Same session trying to reconnect
+      return { allowed: true };
+    }
+    
+    if (ownerSession.browserFingerprint === browserFingerprint) {
+      // Same browser, allow name handoff
+      return { allowed: true };
+    }
+    
+    // Different user trying to take the name
+    return { 
+      allowed: false, 
+      error: `Username "${username}" is already taken by another user in this room.` 
+    };
+  };
+  
+  // Only the session that sent a message may change it, and only while it is on screen
+  const canModifyMessage = (ws: ExtendedWebSocket, id: number | undefined, room: string) => {
+    if (id === undefined || !ws.sessionId) return false;
+    const owner = messageOwners.get(id);
+    return Boolean(
+      owner &&
+      owner.sessionId === ws.sessionId &&
+      owner.room === room &&
+      Date.now() - owner.createdAt <= EDIT_WINDOW
+    );
+  };
+
+  // Presence: the roster is derived from the connected clients here plus the
+  // rosters other instances publish, and the last roster sent to each room is
+  // kept so later changes go out as diffs
+  const lastPresence = new Map<string, Map<string, PresenceUser>>();
+  // Local roster last published per room, so unchanged rosters aren't re-sent
+  const publishedPresence = new Map<string, string>();
+
+  // A user with several tabs is only away once all of them are
+  const mergePresence = (users: Map<string, PresenceUser>, user: PresenceUser) => {
+    const existing = users.get(user.username);
+    users.set(user.username, {
+      username: user.username,
+      userColor: user.userColor ?? existing?.userColor,
+      isTyping: Boolean(user.isTyping || existing?.isTyping),
+      away: Boolean(user.away && (existing ? existing.away : true)),
+    });
+  };
+
+  const getLocalPresence = (room: string): PresenceUser[] => {
+    const users = new Map<string, PresenceUser>();
+    clients.forEach((client) => {
+      if (client.room !== room || !client.username || client.readyState !== WebSocket.OPEN) return;
+      mergePresence(users, {
+        username: client.username,
+        userColor: client.userColor,
+        isTyping: Boolean(client.isTyping),
+        away: Boolean(client.away),
+      });
+    });
+    return Array.from(users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  };
+
+  const getRoomPresence = (room: string): PresenceUser[] => {
+    const users = new Map<string, PresenceUser>();
+    getLocalPresence(room).forEach((user) => mergePresence(users, user));
+    remoteInstances.forEach((instance) => instance.rooms.get(room)?.forEach((user) => mergePresence(users, user)));
+    return Array.from(users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  };
+
+  // Every instance diffs the merged roster itself, so diffs only go to local sockets
+  const refreshPresence = (room: string) => {
+    const local = getLocalPresence(room);
+    const serialized = JSON.stringify(local);
+    if ((publishedPresence.get(room) ?? '[]') !== serialized) {
+      publishBusEvent({ kind: 'presence', room, users: local });
+      if (local.length > 0) {
+        publishedPresence.set(room, serialized);
+      } else {
+        publishedPresence.delete(room);
+      }
+    }
+
+    const previous = lastPresence.get(room) ?? new Map<string, PresenceUser>();
+    const current = new Map(getRoomPresence(room).map((user) => [user.username, user] as const));
+    const sendDiff = (presenceAction: 'join' | 'leave' | 'update', presenceUser: PresenceUser) =>
+      deliverToRoom(room, { type: 'presenceDiff', username: presenceUser.username, room, presenceAction, presenceUser });
+
+    previous.forEach((user, username) => {
+      if (!current.has(username)) sendDiff('leave', user);
+    });
+    current.forEach((user, username) => {
+      const before = previous.get(username);
+      if (!before) {
+        sendDiff('join', user);
+      } else if (before.userColor !== user.userColor || before.isTyping !== user.isTyping || before.away !== user.away) {
+        sendDiff('update', user);
+      }
+    });
+
+    if (current.size > 0) {
+      lastPresence.set(room, current);
+    } else {
+      lastPresence.delete(room);
+    }
+  };
+
+  const setTyping = (ws: ExtendedWebSocket, isTyping: boolean) => {
+    if (ws.typingTimeout) {
+      clearTimeout(ws.typingTimeout);
+      ws.typingTimeout = undefined;
+    }
+    ws.isTyping = isTyping;
+    if (isTyping) {
+      ws.typingTimeout = setTimeout(() => {
+        ws.isTyping = false;
+        if (ws.room) refreshPresence(ws.room);
+      }, TYPING_IDLE_TIMEOUT);
+    }
+  };
+
+  const claimUsername = (username: string, room: string, sessionId: string, browserFingerprint: string) => {
+    const ownershipKey = `${room}:${username}`;
+    const now = Date.now();
+    
+    // Update or create session
+    const session: UserSession = {
+      sessionId,
+      username,
+      room,
+      browserFingerprint,
+      lastSeen: now,
+      connectionCount: (activeSessions.get(sessionId)?.connectionCount || 0) + 1
+    };
+    
+    activeSessions.set(sessionId, session);
+    usernameOwnership.set(ownershipKey, sessionId);
+    publishBusEvent({ kind: 'claim', session });
+  };
+
+  // Sessions with a socket on this instance, whose activity the others can't see
+  const localSessions = () => {
+    const sessions = new Map<string, UserSession>();
+    clients.forEach((client) => {
+      const session = client.sessionId ? activeSessions.get(client.sessionId) : undefined;
+      if (session) sessions.set(session.sessionId, session);
+    });
+    return Array.from(sessions.values());
+  };
+
+  const sendHeartbeat = () => {
+    const rooms: Record<string, PresenceUser[]> = {};
+    publishedPresence.forEach((_roster, room) => {
+      rooms[room] = getLocalPresence(room);
+    });
+    publishBusEvent({ kind: 'heartbeat', rooms, sessions: localSessions() });
+  };
+
+  const adoptRemoteSession = (session: UserSession, claimed: boolean) => {
+    const ownershipKey = `${session.room}:${session.username}`;
+    const existing = activeSessions.get(session.sessionId);
+    if (!existing || existing.lastSeen <= session.lastSeen) {
+      activeSessions.set(session.sessionId, { ...session, connectionCount: existing?.connectionCount ?? 0 });
+    }
+    // A fresh claim wins (its instance already checked it); a heartbeat only fills gaps
+    if (claimed || !usernameOwnership.has(ownershipKey)) {
+      usernameOwnership.set(ownershipKey, session.sessionId);
+    }
+  };
+
+  const setRemoteRoster = (origin: string, room: string, users: PresenceUser[]) => {
+    const instance = remoteInstances.get(origin) ?? { seenAt: Date.now(), rooms: new Map<string, PresenceUser[]>() };
+    instance.seenAt = Date.now();
+    if (users.length > 0) {
+      instance.rooms.set(room, users);
+    } else {
+      instance.rooms.delete(room);
+    }
+    remoteInstances.set(origin, instance);
+  };
+
+  const handleBusEvent = (origin: string, event: BusEvent) => {
+    switch (event.kind) {
+      case 'broadcast':
+        deliverToRoom(event.room, event.message);
+        break;
+      case 'presence':
+        setRemoteRoster(origin, event.room, event.users);
+        refreshPresence(event.room);
+        break;
+      case 'claim':
+        adoptRemoteSession(event.session, true);
+        break;
+      case 'heartbeat': {
+        const rooms = new Set([
+          ...Array.from(remoteInstances.get(origin)?.rooms.keys() ?? []),
+          ...Object.keys(event.rooms),
+        ]);
+        remoteInstances.set(origin, { seenAt: Date.now(), rooms: new Map(Object.entries(event.rooms)) });
+        event.sessions.forEach((session) => adoptRemoteSession(session, false));
+        rooms.forEach((room) => refreshPresence(room));
+        break;
+      }
+      case 'hello':
+        sendHeartbeat();
+        break;
+      case 'kick':
+        kickLocally(event.room, event.username, event.reason);
+        break;
+      case 'mute':
+        muteLocally(event.room, event.username, event.until);
+        break;
+      case 'ban':
+        banLocally({
+          ...event.ban,
+          createdAt: new Date(event.ban.createdAt),
+          expiresAt: event.ban.expiresAt ? new Date(event.ban.expiresAt) : null,
+        }).catch((error) => console.error('[bus] failed to apply ban', error));
+        break;
+      case 'unban': {
+        const bans = roomBanCache.get(event.room);
+        if (bans) roomBanCache.set(event.room, bans.filter((ban) => ban.id !== event.id));
+        break;
+      }
+      case 'passphrase':
+        setPassphraseLocally(event.room, event.hash);
+        break;
+      case 'contentFilters':
+        roomContentFilters.set(event.room, event.config);
+        break;
+      case 'rateLimits':
+        roomRateLimits.set(event.room, event.config);
+        break;
+      case 'registered':
+        registeredNames.set(event.username, true);
+        break;
+      case 'messageOwner':
+        if (event.owner) {
+          messageOwners.set(event.id, event.owner);
+        } else {
+          messageOwners.delete(event.id);
+        }
+        break;
+      case 'feedPolled':
+        seenFeedEntries.set(event.id, new Set(event.entryIds));
+        break;
+    }
+  };
+
+  const unsubscribeBus = bus.subscribe((payload) => {
+    try {
+      const { origin, event } = JSON.parse(payload) as { origin: string; event: BusEvent };
+      if (origin !== instanceId) handleBusEvent(origin, event);
+    } catch (error) {
+      console.error('[bus] failed to handle event', error);
+    }
+  });
+  publishBusEvent({ kind: 'hello' });
+
+  const busHeartbeat = setInterval(() => {
+    sendHeartbeat();
+    const now = Date.now();
+    remoteInstances.forEach((instance, origin) => {
+      if (now - instance.seenAt <= BUS_INSTANCE_TIMEOUT) return;
+      remoteInstances.delete(origin);
+      instance.rooms.forEach((_users, room) => refreshPresence(room));
+    });
+  }, BUS_HEARTBEAT_INTERVAL);
+
+  httpServer.on('close', () => {
+    clearInterval(busHeartbeat);
+    unsubscribeBus();
+  });
+  
+  const getActiveBans = async (room: string) => {
+    if (!roomBanCache.has(room)) {
+      roomBanCache.set(room, await storage.getRoomBans(room));
+    }
+    const now = new Date();
+    return roomBanCache.get(room)!.filter((ban) => !ban.expiresAt || ban.expiresAt > now);
+  };
+
+  const findBan = (bans: RoomBan[], ws: ExtendedWebSocket, fingerprint = ws.browserFingerprint) =>
+    bans.find((ban) =>
+      (ban.sessionId !== null && ban.sessionId === ws.token?.sessionId) ||
+      (ban.fingerprint !== null && ban.fingerprint === fingerprint) ||
+      (ban.ip !== null && ban.ip === ws.ip)
+    );
+
+  const banMessage = (ban: RoomBan) =>
+    closeReason(ban.reason ? `Banned from this room: ${ban.reason}` : 'Banned from this room');
+
+  const getMutedUntil = (room: string, username: string) => {
+    const until = mutes.get(`${room}:${username}`);
+    return until && until > Date.now() ? until : undefined;
+  };
+
+  // Tells the sender a frame was dropped so its optimistic bubble can be marked undelivered.
+  // Keystrokes are skipped: they have no bubble of their own and would flood the client.
+  const sendRejection = (ws: ExtendedWebSocket, frame: WSMessage, reason: RejectionReason, retryAfterMs?: number) => {
+    if (frame.type === 'keystroke' || ws.readyState !== WebSocket.OPEN || !canReceive(ws, 'rejected')) return;
+    ws.send(JSON.stringify({
+      type: 'rejected',
+      username: frame.username,
+      room: frame.room,
+      nonce: frame.nonce,
+      id: frame.id,
+      rejectionReason: reason,
+      retryAfterMs,
+      error: retryAfterMs
+        ? `${REJECTION_MESSAGES[reason]} Try again in ${Math.ceil(retryAfterMs / 1000)}s.`
+        : REJECTION_MESSAGES[reason],
+    }));
+  };
+
+  const sendMuteNotice = (ws: ExtendedWebSocket, room: string, username: string, mutedUntil?: number) => {
+    ws.send(JSON.stringify({
+      type: 'moderation',
+      username,
+      room,
+      moderationAction: mutedUntil ? 'mute' : 'unmute',
+      mutedUntil: mutedUntil ? new Date(mutedUntil).toISOString() : undefined,
+    }));
+  };
+
+  const roomSockets = (room: string, username: string) =>
+    Array.from(clients).filter((client) => client.token?.room === room && client.username === username);
+
+  // Moderation and room settings take effect here, then go out on the bus so the other
+  // instances apply them to their own sockets and caches
+  const kickLocally = (room: string, username: string, reason: string) => {
+    const sockets = roomSockets(room, username);
+    sockets.forEach((client) => client.close(WS_CLOSE_KICKED, reason));
+    return sockets.length;
+  };
+
+  const muteLocally = (room: string, username: string, until: number | null) => {
+    const key = `${room}:${username}`;
+    const wasMuted = getMutedUntil(room, username) !== undefined;
+    if (until) {
+      mutes.set(key, until);
+    } else {
+      mutes.delete(key);
+    }
+    roomSockets(room, username).forEach((client) => {
+      if (until) setTyping(client, false);
+      sendMuteNotice(client, room, username, until ?? undefined);
+    });
+    if (until) refreshPresence(room);
+    return wasMuted;
+  };
+
+  const banLocally = async (ban: RoomBan) => {
+    roomBanCache.set(ban.room, [...(await getActiveBans(ban.room)).filter((existing) => existing.id !== ban.id), ban]);
+    // Other tabs or users sharing one of the banned identifiers go too
+    clients.forEach((client) => {
+      if (client.token?.room === ban.room && findBan([ban], client)) {
+        client.close(WS_CLOSE_BANNED, banMessage(ban));
+      }
+    });
+  };
+
+  const setPassphraseLocally = (room: string, hash: string | null) => {
+    roomPassphrases.set(room, hash);
+    // Sockets already in the room stay in
+    if (hash) {
+      clients.forEach((client) => {
+        if (client.room === room) client.unlockedRooms?.add(room);
+      });
+    }
+  };
+
+  const getPassphraseHash = async (room: string) => {
+    if (!roomPassphrases.has(room)) {
+      roomPassphrases.set(room, await storage.getRoomPassphraseHash(room));
+    }
+    return roomPassphrases.get(room) ?? null;
+  };
+
+  const getContentFilters = async (room: string) => {
+    if (!roomContentFilters.has(room)) {
+      roomContentFilters.set(room, await storage.getContentFilters(room));
+    }
+    return roomContentFilters.get(room) ?? DEFAULT_CONTENT_FILTERS;
+  };
+
+  const getRateLimits = async (room: string) => {
+    if (!roomRateLimits.has(room)) {
+      roomRateLimits.set(room, await storage.getRateLimits(room));
+    }
+    // Quotas saved before a bucket kind existed fall back to its default
+    return { ...DEFAULT_RATE_LIMITS, ...roomRateLimits.get(room) };
+  };
+
+  const canAccessRoom = async (room: string, passphrase: string | undefined) => {
+    const hash = await getPassphraseHash(room);
+    return !hash || (passphrase !== undefined && await verifyPassphrase(passphrase, hash));
+  };
+
+  // HTTP requests carry a private room's passphrase in x-room-passphrase. Each guess costs
+  // a scrypt run, so guesses draw on the join budget of the caller's address, like socket joins.
+  type RoomAccessCheck = { granted: boolean; retryAfterMs?: number };
+  const checkRoomAccess = async (req: express.Request, room: string): Promise<RoomAccessCheck> => {
+    const hash = await getPassphraseHash(room);
+    if (!hash) return { granted: true };
+    const passphrase = req.header('x-room-passphrase');
+    if (passphrase === undefined) return { granted: false };
+
+    const limit = consumeRateLimit('join', room, [`ip:${clientIp(req)}`], await getRateLimits(room));
+    if (!limit.allowed) return { granted: false, retryAfterMs: limit.retryAfterMs };
+    return { granted: await verifyPassphrase(passphrase, hash) };
+  };
+
+  const denyRoomAccess = (res: express.Response, { retryAfterMs }: RoomAccessCheck, error: string) => {
+    if (retryAfterMs !== undefined) {
+      res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      res.status(429).json({ error: "Too many passphrase attempts", retryAfterMs });
+      return;
+    }
+    res.status(403).json({ error });
+  };
+
+  const requireRoomAccess: RequestHandler = async (req, res, next) => {
+    try {
+      const access = await checkRoomAccess(req, req.params.room);
+      if (access.granted) {
+        next();
+        return;
+      }
+      denyRoomAccess(res, access, "This room is private");
+    } catch (error) {
+      console.error("[rooms] passphrase check failed", error);
+      res.status(500).json({ error: 'Failed to check room access' });
+    }
+  };
+
+  // Optional registered accounts; the login cookie also authenticates the WebSocket
+  app.post('/api/auth/register', async (req, res) => {
+    const parsed = accountCredentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    try {
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        res.status(409).json({ error: `Username "${username}" is already registered` });
+        return;
+      }
+
+      const user = await storage.createUser({ username, passwordHash: await hashPassphrase(password) });
+      registeredNames.set(user.username, true);
+      publishBusEvent({ kind: 'registered', username: user.username });
+      req.session.regenerate((error) => {
+        if (error) {
+          res.status(500).json({ error: 'Failed to start session' });
+          return;
+        }
+        req.session.account = { id: user.id, username: user.username };
+        res.status(201).json(req.session.account);
+      });
+    } catch (error) {
+      console.error("[auth] registration failed", error);
+      res.status(500).json({ error: 'Failed to register account' });
+    }
+  });
+
+  app.post('/api/auth/login', async (req, res) => {
+    const parsed = accountCredentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    try {
+      const { username, password } = parsed.data;
+      const ip = clientIp(req) ?? "unknown";
+      const attempt = checkLoginAttempt(ip, username);
+      if (!attempt.allowed) {
+        res.set('Retry-After', String(Math.ceil(attempt.retryAfterMs / 1000)));
+        res.status(429).json({ error: 'Too many failed logins; try again later', retryAfterMs: attempt.retryAfterMs });
+        return;
+      }
+
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassphrase(password, user.passwordHash))) {
+        recordLoginFailure(ip, username);
+        res.status(401).json({ error: 'Invalid username or password' });
+        return;
+      }
+
+      req.session.regenerate((error) => {
+        if (error) {
+          res.status(500).json({ error: 'Failed to start session' });
+          return;
+        }
+        req.session.account = { id: user.id, username: user.username };
+        res.json(req.session.account);
+      });
+    } catch (error) {
+      console.error("[auth] login failed", error);
+      res.status(500).json({ error: 'Failed to log in' });
+    }
+  });
+
+  app.post('/api/auth/logout', (req, res) => {
+    req.session.destroy((error) => {
+      if (error) {
+        res.status(500).json({ error: 'Failed to log out' });
+        return;
+      }
+      res.clearCookie('whirledtalk.sid');
+      res.json({ ok: true });
+    });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    if (!req.session.account) {
+      res.status(401).json({ error: 'Not logged in' });
+      return;
+    }
+    res.json(req.session.account);
+  });
+
+  // Handshake for /ws: the returned token scopes the socket to one name and room
+  app.post('/api/ws-token', (req, res) => {
+    const parsed = socketTokenRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    // The previous token's session, else this browser's cookie session; a brand-new
+    // session sheds any session ban, so those are rate-limited per address
+    const { username, room, previousToken } = parsed.data;
+    let sessionId = previousSocketSession(previousToken) ?? req.session.socketSessionId;
+    if (!sessionId) {
+      const limit = consumeSessionMint(clientIp(req) ?? "unknown");
+      if (!limit.allowed) {
+        res.set('Retry-After', String(Math.ceil(limit.retryAfterMs / 1000)));
+        res.status(429).json({ error: "Too many new sessions from this address", retryAfterMs: limit.retryAfterMs });
+        return;
+      }
+      sessionId = newSocketSessionId();
+    }
+    req.session.socketSessionId = sessionId;
+
+    const { token, claims } = mintSocketToken(username, room, sessionId);
+    res.json({ token, expiresAt: new Date(claims.expiresAt).toISOString() });
+  });
+
+  // API route to get recent messages for a room. Without paging params this keeps
+  // returning a plain array; with any of them it returns a MessagePage.
+  app.get('/api/messages/:room', requireRoomAccess, async (req, res) => {
+    try {
+      const { room } = req.params;
+      const policy = await storage.getRetentionPolicy(room);
+      const historyLimit = getHistoryLimit(policy);
+
+      if (HISTORY_PAGE_PARAMS.some((name) => req.query[name] !== undefined)) {
+        const parsed = parseHistoryQuery(req.query, Math.min(historyLimit, MAX_HISTORY_PAGE));
+        if ('error' in parsed) {
+          res.status(400).json({ error: parsed.error });
+          return;
+        }
+        res.json(await storage.queryMessages(room, parsed.query));
+        return;
+      }
+
+      const messages = await storage.getRecentMessages(room, historyLimit);
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch messages' });
+    }
+  });
+
+  // Directory of active rooms: any room with connected users or retained messages
+  const listRoomSummaries = async (includeHidden: boolean): Promise<RoomSummary[]> => {
+    const since = new Date(Date.now() - ACTIVITY_WINDOW_MINUTES * 60 * 1000);
+    const [activity, hiddenRooms, privateRooms] = await Promise.all([
+      storage.getRoomActivity(since),
+      storage.getHiddenRooms(),
+      storage.getPrivateRooms(),
+    ]);
+    const hidden = new Set(hiddenRooms);
+    const locked = new Set(privateRooms);
+    const summaries = new Map<string, RoomSummary & { lastActivityMs: number }>();
+
+    const summaryFor = (room: string) => {
+      const existing = summaries.get(room);
+      if (existing) return existing;
+      const summary = { room, userCount: 0, messagesPerMinute: 0, lastActivity: null, lastActivityMs: 0 };
+      summaries.set(room, summary);
+      return summary;
+    };
+
+    activity.forEach(({ room, lastMessageAt, recentMessageCount }) => {
+      const summary = summaryFor(room);
+      summary.messagesPerMinute = Math.round((recentMessageCount / ACTIVITY_WINDOW_MINUTES) * 10) / 10;
+      summary.lastActivityMs = Math.max(summary.lastActivityMs, lastMessageAt?.getTime() ?? 0);
+    });
+
+    const seen = new Set<string>();
+    clients.forEach((client) => {
+      if (!client.room || !client.username) return;
+      const summary = summaryFor(client.room);
+      const userKey = `${client.room}:${client.username}`;
+      if (!seen.has(userKey)) {
+        seen.add(userKey);
+        summary.userCount++;
+      }
+      summary.lastActivityMs = Math.max(summary.lastActivityMs, client.lastMessageTime ?? 0);
+    });
+    remoteInstances.forEach((instance) => {
+      instance.rooms.forEach((users, room) => {
+        users.forEach(({ username }) => {
+          const userKey = `${room}:${username}`;
+          if (seen.has(userKey)) return;
+          seen.add(userKey);
+          summaryFor(room).userCount++;
+        });
+      });
+    });
+
+    return Array.from(summaries.values())
+      .filter((summary) => includeHidden || (!hidden.has(summary.room) && !locked.has(summary.room)))
+      .sort((a, b) => b.userCount - a.userCount || b.lastActivityMs - a.lastActivityMs)
+      .map(({ lastActivityMs, ...summary }) => ({
+        ...summary,
+        lastActivity: lastActivityMs ? new Date(lastActivityMs).toISOString() : null,
+        ...(includeHidden ? { hidden: hidden.has(summary.room), private: locked.has(summary.room) } : {}),
+      }));
+  };
+
+  app.get('/api/rooms', async (_req, res) => {
+    try {
+      res.json(await listRoomSummaries(false));
+    } catch (error) {
+      console.error("[rooms] failed to build directory", error);
+      res.status(500).json({ error: 'Failed to list rooms' });
+    }
+  });
+
+  app.get('/api/rooms/:room/presence', requireRoomAccess, (req, res) => {
+    const { room } = req.params;
+    res.json({ room, users: getRoomPresence(room) });
+  });
+
+  // Full-text search across rooms; quoted phrases and trailing-* prefixes are supported
+  app.get('/api/search', async (req, res) => {
+    const read = (name: string) => typeof req.query[name] === "string" ? req.query[name] as string : undefined;
+    const q = read("q")?.trim();
+    if (!q) {
+      res.status(400).json({ error: "Missing search query q" });
+      return;
+    }
+
+    const filters: SearchFilters = { room: read("room"), username: read("username") };
+    for (const name of ["from", "to"] as const) {
+      const value = read(name);
+      if (value === undefined) continue;
+      const instant = parseInstant(value);
+      if (!instant) {
+        res.status(400).json({ error: `Invalid ${name} timestamp` });
+        return;
+      }
+      filters[name] = instant;
+    }
+
+    const limit = read("limit");
+    if (limit !== undefined) {
+      const parsed = Number(limit);
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        res.status(400).json({ error: "Invalid limit" });
+        return;
+      }
+      filters.limit = Math.min(parsed, MAX_SEARCH_RESULTS);
+    }
+
+    try {
+      // Private rooms are only searchable one room at a time, with the passphrase
+      if (filters.room) {
+        const access = await checkRoomAccess(req, filters.room);
+        if (!access.granted) {
+          denyRoomAccess(res, access, "This room is private");
+          return;
+        }
+      } else {
+        filters.excludeRooms = await storage.getPrivateRooms();
+      }
+      res.json(await storage.searchMessages(q, filters));
+    } catch (error) {
+      console.error("[search] query failed", error);
+      res.status(500).json({ error: 'Failed to search messages' });
+    }
+  });
+
+  // Stream every retained message in a room, oldest first
+  app.get('/api/rooms/:room/export', requireRoomAccess, async (req, res) => {
+    const { room } = req.params;
+    const format = typeof req.query.format === "string" ? req.query.format : "jsonl";
+    if (!isTranscriptFormat(format)) {
+      res.status(400).json({ error: "Expected format=jsonl|csv|txt" });
+      return;
+    }
+
+    const { contentType, extension } = TRANSCRIPT_FORMATS[format];
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(room)}.${extension}"`);
+
+    const write = (chunk: string) =>
+      res.write(chunk) ? Promise.resolve() : new Promise<void>((resolve) => res.once('drain', () => resolve()));
+
+    try {
+      await write(transcriptPreamble(format));
+      let after: MessageCursor = { timestamp: new Date(0) };
+      for (;;) {
+        const page = await storage.queryMessages(room, { after, limit: EXPORT_PAGE_SIZE });
+        for (const message of page.messages) {
+          await write(formatTranscriptLine(message, format));
+        }
+        const id = page.nextCursor ? parseMessageIdCursor(page.nextCursor) : undefined;
+        if (id === undefined) break;
+        after = { id };
+      }
+      res.end();
+    } catch (error) {
+      console.error("[export] transcript stream failed", error);
+      // Headers are already sent, so the best we can do is cut the stream short
+      res.destroy(error as Error);
+    }
+  });
+
+  // Re-seed a room from a JSONL export; ?mode=replace clears the room first
+  app.post(
+    '/api/rooms/:room/import',
+    requireAdmin,
+    express.text({ type: ['application/x-ndjson', 'application/jsonl', 'text/plain'], limit: '5mb' }),
+    async (req, res) => {
+      if (typeof req.body !== "string") {
+        res.status(415).json({ error: "Expected a JSON Lines body (application/x-ndjson)" });
+        return;
+      }
+
+      const parsed = parseJsonlTranscript(req.body);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      try {
+        const { room } = req.params;
+        // Rows the next retention sweep would delete are skipped rather than imported
+        const { maxAgeMinutes } = await storage.getRetentionPolicy(room);
+        const cutoff = maxAgeMinutes === null ? undefined : Date.now() - maxAgeMinutes * 60 * 1000;
+        const entries = cutoff === undefined
+          ? parsed.entries
+          : parsed.entries.filter((entry) => entry.timestamp.getTime() >= cutoff);
+
+        const imported = await storage.importMessages(room, entries, req.query.mode === "replace");
+        res.json({ ok: true, room, imported, skipped: parsed.entries.length - entries.length });
+      } catch (error) {
+        console.error("[import] transcript import failed", error);
+        res.status(500).json({ error: 'Failed to import transcript' });
+      }
+    },
+  );
+
+  // Locking a public room takes a room moderator or the admin token; changing or
+  // clearing an existing passphrase also accepts the current one. Sockets already in the room stay in.
+  app.put('/api/rooms/:room/passphrase', async (req, res) => {
+    const parsed = roomPassphraseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    try {
+      const { room } = req.params;
+      const locked = Boolean(await getPassphraseHash(room));
+      if (!isAdminRequest(req) && !(await isRoomModerator(req, room))) {
+        if (!locked) {
+          res.status(403).json({ error: "Only a room moderator can make this room private" });
+          return;
+        }
+        const access = await checkRoomAccess(req, room);
+        if (!access.granted) {
+          denyRoomAccess(res, access, "The current passphrase is required to change it");
+          return;
+        }
+      }
+
+      const hash = parsed.data.passphrase === null ? null : await hashPassphrase(parsed.data.passphrase);
+      await storage.setRoomPassphraseHash(room, hash);
+      setPassphraseLocally(room, hash);
+      publishBusEvent({ kind: 'passphrase', room, hash });
+      res.json({ room, private: Boolean(hash) });
+    } catch (error) {
+      console.error("[rooms] failed to update passphrase", error);
+      res.status(500).json({ error: 'Failed to update room passphrase' });
+    }
+  });
+
+  // Moderation: kick closes the user's sockets, mute silences them for a while,
+  // ban records their session/fingerprint/IP so reconnecting doesn't help
+  const moderatorName = (req: express.Request) => req.session.account?.username ?? 'admin';
+
+  app.post('/api/rooms/:room/moderation/kick', requireModerator, (req, res) => {
+    const parsed = kickRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    const { room } = req.params;
+    const { username, reason } = parsed.data;
+    if (!getRoomPresence(room).some((user) => user.username === username)) {
+      res.status(404).json({ error: `${username} is not in this room` });
+      return;
+    }
+
+    const closeText = closeReason(reason ? `Removed by a moderator: ${reason}` : 'Removed by a moderator');
+    const disconnected = kickLocally(room, username, closeText); // Sockets on this instance
+    publishBusEvent({ kind: 'kick', room, username, reason: closeText });
+    audit({ room, username, actor: moderatorName(req), reason: 'kick', detail: reason });
+    res.json({ ok: true, room, username, disconnected });
+  });
+
+  app.post('/api/rooms/:room/moderation/mute', requireModerator, (req, res) => {
+    const parsed = muteRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    const { room } = req.params;
+    const { username, durationMinutes } = parsed.data;
+    const mutedUntil = Date.now() + durationMinutes * 60 * 1000;
+    muteLocally(room, username, mutedUntil);
+    publishBusEvent({ kind: 'mute', room, username, until: mutedUntil });
+    audit({ room, username, actor: moderatorName(req), reason: 'mute', detail: `${durationMinutes} minutes` });
+    res.json({ ok: true, room, username, mutedUntil: new Date(mutedUntil).toISOString() });
+  });
+
+  app.delete('/api/rooms/:room/moderation/mute/:username', requireModerator, (req, res) => {
+    const { room, username } = req.params;
+    const wasMuted = muteLocally(room, username, null);
+    publishBusEvent({ kind: 'mute', room, username, until: null });
+    if (wasMuted) {
+      audit({ room, username, actor: moderatorName(req), reason: 'unmute' });
+    }
+    res.json({ ok: true, room, username, wasMuted });
+  });
+
+  app.get('/api/rooms/:room/moderation/bans', requireModerator, async (req, res) => {
+    try {
+      res.json(await getActiveBans(req.params.room));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch bans' });
+    }
+  });
+
+  app.post('/api/rooms/:room/moderation/ban', requireModerator, async (req, res) => {
+    const parsed = banRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    const { room } = req.params;
+    const { username, reason, durationMinutes, by } = parsed.data;
+    // A socket here gives every identifier; a user on another instance is known by the
+    // session that owns the name there, which carries no IP address
+    const socket = roomSockets(room, username)[0];
+    const ownerSession = activeSessions.get(usernameOwnership.get(`${room}:${username}`) ?? '');
+    const target = socket
+      ? { sessionId: socket.token?.sessionId, fingerprint: socket.browserFingerprint, ip: socket.ip }
+      : ownerSession && { sessionId: ownerSession.sessionId, fingerprint: ownerSession.browserFingerprint, ip: undefined };
+    if (!target || !getRoomPresence(room).some((user) => user.username === username)) {
+      res.status(404).json({ error: `${username} is not in this room` });
+      return;
+    }
+
+    try {
+      const ban = await storage.addRoomBan({
+        room,
+        username,
+        sessionId: by.includes('session') ? target.sessionId ?? null : null,
+        fingerprint: by.includes('fingerprint') ? target.fingerprint ?? null : null,
+        ip: by.includes('ip') ? target.ip ?? null : null,
+        reason: reason ?? null,
+        createdBy: moderatorName(req),
+        expiresAt: durationMinutes ? new Date(Date.now() + durationMinutes * 60 * 1000) : null,
+      });
+      await banLocally(ban);
+      publishBusEvent({ kind: 'ban', ban });
+      audit({ room, username, actor: ban.createdBy, reason: 'ban', detail: reason ?? `by ${by.join(', ')}` });
+      res.status(201).json(ban);
+    } catch (error) {
+      console.error("[moderation] failed to ban user", error);
+      res.status(500).json({ error: 'Failed to ban user' });
+    }
+  });
+
+  app.delete('/api/rooms/:room/moderation/bans/:id', requireModerator, async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      res.status(400).json({ error: "Invalid ban id" });
+      return;
+    }
+
+    try {
+      const { room } = req.params;
+      const lifted = (await getActiveBans(room)).find((ban) => ban.id === id);
+      const removed = await storage.deleteRoomBan(room, id);
+      roomBanCache.delete(room);
+      if (!removed) {
+        res.status(404).json({ error: "Ban not found" });
+        return;
+      }
+      publishBusEvent({ kind: 'unban', room, id });
+      audit({ room, username: lifted?.username ?? null, actor: moderatorName(req), reason: 'unban', detail: `ban #${id}` });
+      res.json({ ok: true, room, id });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to lift ban' });
+    }
+  });
+
+  app.get('/api/admin/audit', requireAdmin, async (req, res) => {
+    const read = (name: string) => typeof req.query[name] === "string" ? req.query[name] as string : undefined;
+    const reason = read("reason");
+    if (reason !== undefined && !AUDIT_REASONS.includes(reason as AuditReason)) {
+      res.status(400).json({ error: `Unknown reason; expected one of ${AUDIT_REASONS.join(", ")}` });
+      return;
+    }
+
+    let limit = DEFAULT_AUDIT_PAGE;
+    const rawLimit = read("limit");
+    if (rawLimit !== undefined) {
+      const parsed = Number(rawLimit);
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        res.status(400).json({ error: "Invalid limit" });
+        return;
+      }
+      limit = Math.min(parsed, MAX_AUDIT_PAGE);
+    }
+
+    try {
+      res.json(await storage.queryAuditEvents({
+        room: read("room"),
+        username: read("user"),
+        reason: reason as AuditReason | undefined,
+        limit,
+      }));
+    } catch (error) {
+      console.error("[audit] query failed", error);
+      res.status(500).json({ error: 'Failed to fetch audit events' });
+    }
+  });
+
+  // Admin routes for assigning room moderators (registered accounts only)
+  app.get('/api/admin/rooms/:room/moderators', requireAdmin, async (req, res) => {
+    try {
+      const { room } = req.params;
+      res.json({ room, moderators: await storage.getRoomModerators(room) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch moderators' });
+    }
+  });
+
+  app.put('/api/admin/rooms/:room/moderators/:username', requireAdmin, async (req, res) => {
+    try {
+      const { room, username } = req.params;
+      if (!(await storage.getUserByUsername(username))) {
+        res.status(404).json({ error: `No registered account named ${username}` });
+        return;
+      }
+      await storage.addRoomModerator(room, username);
+      res.json({ room, moderators: await storage.getRoomModerators(room) });
+    } catch (error) {
+      console.error("[admin] failed to add moderator", error);
+      res.status(500).json({ error: 'Failed to add moderator' });
+    }
+  });
+
+  app.delete('/api/admin/rooms/:room/moderators/:username', requireAdmin, async (req, res) => {
+    try {
+      const { room, username } = req.params;
+      if (!(await storage.removeRoomModerator(room, username))) {
+        res.status(404).json({ error: `${username} is not a moderator of ${room}` });
+        return;
+      }
+      res.json({ room, moderators: await storage.getRoomModerators(room) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to remove moderator' });
+    }
+  });
+
+  // Admin view of the directory, including hidden rooms
+  app.get('/api/admin/rooms', requireAdmin, async (_req, res) => {
+    try {
+      res.json(await listRoomSummaries(true));
+    } catch (error) {
+      console.error("[admin] failed to build directory", error);
+      res.status(500).json({ error: 'Failed to list rooms' });
+    }
+  });
+
+  app.put('/api/admin/rooms/:room/visibility', requireAdmin, async (req, res) => {
+    if (typeof req.body?.hidden !== "boolean") {
+      res.status(400).json({ error: "Expected payload { hidden: boolean }" });
+      return;
+    }
+
+    try {
+      const { room } = req.params;
+      await storage.setRoomHidden(room, req.body.hidden);
+      res.json({ room, hidden: req.body.hidden });
+    } catch (error) {
+      console.error("[admin] failed to update room visibility", error);
+      res.status(500).json({ error: 'Failed to update room visibility' });
+    }
+  });
+
+  // Admin routes for per-room retention policies
+  app.get('/api/admin/retention', requireAdmin, async (_req, res) => {
+    try {
+      res.json(await storage.listRetentionPolicies());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch retention policies' });
+    }
+  });
+
+  app.get('/api/admin/rooms/:room/retention', requireAdmin, async (req, res) => {
+    try {
+      const { room } = req.params;
+      res.json({ room, ...(await storage.getRetentionPolicy(room)) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch retention policy' });
+    }
+  });
+
+  app.put('/api/admin/rooms/:room/retention', requireAdmin, async (req, res) => {
+    const parsed = retentionPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    try {
+      const { room } = req.params;
+      const policy = await storage.setRetentionPolicy(room, parsed.data);
+      await storage.applyRetentionPolicies();
+      res.json({ room, ...policy });
+    } catch (error) {
+      console.error("[admin] failed to update retention policy", error);
+      res.status(500).json({ error: 'Failed to update retention policy' });
+    }
+  });
+
+  app.get('/api/admin/rooms/:room/filters', requireAdmin, async (req, res) => {
+    try {
+      const { room } = req.params;
+      res.json({ room, ...(await getContentFilters(room)) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch content filters' });
+    }
+  });
+
+  // Partial updates merge into the room's current settings, so a word list can change on its own
+  app.put('/api/admin/rooms/:room/filters', requireAdmin, async (req, res) => {
+    const parsed = contentFilterUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    try {
+      const { room } = req.params;
+      const config = mergeContentFilters(await getContentFilters(room), parsed.data);
+      await storage.setContentFilters(room, config);
+      roomContentFilters.set(room, config);
+      publishBusEvent({ kind: 'contentFilters', room, config });
+      res.json({ room, ...config });
+    } catch (error) {
+      console.error("[admin] failed to update content filters", error);
+      res.status(500).json({ error: 'Failed to update content filters' });
+    }
+  });
+
+  app.delete('/api/admin/rooms/:room/filters', requireAdmin, async (req, res) => {
+    try {
+      const { room } = req.params;
+      await storage.setContentFilters(room, null);
+      roomContentFilters.set(room, null);
+      publishBusEvent({ kind: 'contentFilters', room, config: null });
+      res.json({ room, ...DEFAULT_CONTENT_FILTERS });
+    } catch (error) {
+      console.error("[admin] failed to reset content filters", error);
+      res.status(500).json({ error: 'Failed to reset content filters' });
+    }
+  });
+
+  app.get('/api/admin/rooms/:room/rate-limits', requireAdmin, async (req, res) => {
+    try {
+      const { room } = req.params;
+      res.json({ room, ...(await getRateLimits(room)) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch rate limits' });
+    }
+  });
+
+  app.put('/api/admin/rooms/:room/rate-limits', requireAdmin, async (req, res) => {
+    const parsed = rateLimitUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    try {
+      const { room } = req.params;
+      const config = mergeRateLimits(await getRateLimits(room), parsed.data);
+      await storage.setRateLimits(room, config);
+      roomRateLimits.set(room, config);
+      publishBusEvent({ kind: 'rateLimits', room, config });
+      res.json({ room, ...config });
+    } catch (error) {
+      console.error("[admin] failed to update rate limits", error);
+      res.status(500).json({ error: 'Failed to update rate limits' });
+    }
+  });
+
+  app.delete('/api/admin/rooms/:room/rate-limits', requireAdmin, async (req, res) => {
+    try {
+      const { room } = req.params;
+      await storage.setRateLimits(room, null);
+      roomRateLimits.set(room, null);
+      publishBusEvent({ kind: 'rateLimits', room, config: null });
+      res.json({ room, ...DEFAULT_RATE_LIMITS });
+    } catch (error) {
+      console.error("[admin] failed to reset rate limits", error);
+      res.status(500).json({ error: 'Failed to reset rate limits' });
+    }
+  });
+
+  app.get('/api/admin/rooms/:room/feeds', requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getFeedSubscriptions(req.params.room));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch feed subscriptions' });
+    }
+  });
+
+  app.post('/api/admin/rooms/:room/feeds', requireAdmin, async (req, res) => {
+    const parsed = feedSubscriptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
+    }
+
+    try {
+      const subscription = await storage.addFeedSubscription({ room: req.params.room, ...parsed.data });
+      // Record what the feed already holds so only later entries are relayed
+      pollFeed(subscription).catch(() => undefined);
+      res.status(201).json(subscription);
+    } catch (error) {
+      console.error("[admin] failed to add feed subscription", error);
+      res.status(500).json({ error: 'Failed to add feed subscription' });
+    }
+  });
+
+  // Polls one feed right away instead of waiting for the interval
+  app.post('/api/admin/rooms/:room/feeds/:id/poll', requireAdmin, async (req, res) => {
+    try {
+      const subscription = (await storage.getFeedSubscriptions(req.params.room))
+        .find((feed) => feed.id === Number(req.params.id));
+      if (!subscription) {
+        res.status(404).json({ error: 'Feed subscription not found' });
+        return;
+      }
+      res.json({ id: subscription.id, relayed: await pollFeed(subscription) });
+    } catch (error) {
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to poll feed' });
+    }
+  });
+
+  app.delete('/api/admin/rooms/:room/feeds/:id', requireAdmin, async (req, res) => {
+    try {
+      if (!(await storage.deleteFeedSubscription(req.params.room, Number(req.params.id)))) {
+        res.status(404).json({ error: 'Feed subscription not found' });
+        return;
+      }
+      seenFeedEntries.delete(Number(req.params.id));
+      res.json({ ok: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to remove feed subscription' });
     }
-    
-    const ownerSession = activeSessions.get(currentOwner);
-    if (!ownerSession) {
-      // Owner session expired, release name
-      usernameOwnership.delete(ownershipKey);
-      return { allowed: true };
+  });
+
+  app.get('/api/admin/relay-sources', requireAdmin, async (_req, res) => {
+    try {
+      res.json((await storage.getRelaySources()).map(publicRelaySource));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch relay sources' });
     }
-    
-    if (currentOwner === sessionId) {
-      // Same session trying to reconnect
-      return { allowed: true };
+  });
+
+  app.put('/api/admin/relay-sources/:sourceId', requireAdmin, async (req, res) => {
+    const id = relaySourceIdSchema.safeParse(req.params.sourceId);
+    if (!id.success) {
+      res.status(400).json({ error: fromZodError(id.error).toString() });
+      return;
     }
-    
-    if (ownerSession.browserFingerprint === browserFingerprint) {
-      // Same browser, allow name handoff
-      return { allowed: true };
+    const parsed = relaySourceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: fromZodError(parsed.error).toString() });
+      return;
     }
-    
-    // Different user trying to take the name
-    return { 
-      allowed: false, 
-      error: `Username "${username}" is already taken by another user in this room.` 
-    };
-  };
-  
-  const claimUsername = (username: string, room: string, sessionId: string, browserFingerprint: string) => {
-    const ownershipKey = `${room}:${username}`;
-    const now = Date.now();
-    
-    // Update or create session
-    const session: UserSession = {
-      sessionId,
-      username,
-      room,
-      browserFingerprint,
-      lastSeen: now,
-      connectionCount: (activeSessions.get(sessionId)?.connectionCount || 0) + 1
-    };
-    
-    activeSessions.set(sessionId, session);
-    usernameOwnership.set(ownershipKey, sessionId);
-  };
-  
-  // API route to get recent messages for a room
-  app.get('/api/messages/:room', async (req, res) => {
+
     try {
-      const { room } = req.params;
-      const messages = await storage.getRecentMessages(room, 100);
-      res.json(messages);
+      const source = await storage.saveRelaySource({ id: id.data, ...parsed.data });
+      res.json(publicRelaySource(source));
     } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch messages' });
+      console.error("[admin] failed to save relay source", error);
+      res.status(500).json({ error: 'Failed to save relay source' });
+    }
+  });
+
+  app.delete('/api/admin/relay-sources/:sourceId', requireAdmin, async (req, res) => {
+    try {
+      if (!(await storage.deleteRelaySource(req.params.sourceId))) {
+        res.status(404).json({ error: 'Unknown relay source' });
+        return;
+      }
+      res.json({ ok: true, id: req.params.sourceId });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete relay source' });
     }
   });
 
+  // Stores a server-prepared message and whirls it in from off-screen right at a random height
+  const relayToRoom = async (room: string, relayed: RelayedMessage) => {
+    const yPosition = Math.min(92, Math.floor(6 + Math.random() * 82));
+    const xPosition = -10;
+
+    const stored = await storage.addMessage({ ...relayed, room, isTyping: false, xPosition, yPosition });
+
+    broadcastToRoom(room, {
+      type: "newMessage",
+      ...relayed,
+      room,
+      xPosition,
+      yPosition,
+      serverPrepared: true,
+      id: stored.id,
+      timestamp: stored.timestamp.toISOString(),
+    });
+  };
+
   const relayHockerItem = async (item: HockerLatestItem, room: string) => {
     if (!item || !Number.isFinite(item.hnId)) {
       return;
@@ -174,50 +1909,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     }
 
-    const username = `${item.by || "unknown"}`;
     const textParagraphs = item.text ? htmlToParagraphs(item.text) : [];
     const titleLine = stripHtml(item.title || "");
     const bodyText = textParagraphs.length ? textParagraphs.join(" ") : "";
-    const messageText = titleLine || bodyText || `HN item #${item.hnId}`;
-    const sourceUrl = item.sourceUrl || `https://news.ycombinator.com/item?id=${item.hnId}`;
-    const baseYPosition = Math.floor(6 + Math.random() * 82);
-    const yPosition = Math.min(92, baseYPosition);
-    const storyUrl = item.type === "story" && item.url ? item.url : null;
-    const xPosition = -10;
+    const storyUrl = item.type === "story" && item.url ? item.url : undefined;
 
-    await storage.addMessage({
-      username,
-      content: messageText,
-      room,
-      isTyping: false,
-      xPosition,
-      yPosition,
-      sourceUrl,
+    await relayToRoom(room, {
+      username: `${item.by || "unknown"}`,
+      content: titleLine || bodyText || `HN item #${item.hnId}`,
+      sourceUrl: item.sourceUrl || `https://news.ycombinator.com/item?id=${item.hnId}`,
       sourceLabel: "HN",
-      storyUrl: storyUrl || undefined,
+      sourceBadge: "slate",
+      storyUrl,
       storyLabel: storyUrl ? "Story" : undefined,
     });
+  };
 
-    broadcastToRoom(room, {
-      type: "newMessage",
-      username,
-      content: messageText,
-      room,
-      xPosition,
-      yPosition,
-      sourceUrl,
-      sourceLabel: "HN",
-      storyUrl: storyUrl || undefined,
-      storyLabel: storyUrl ? "Story" : undefined,
-      serverPrepared: true,
-    });
+  // Entry ids in each subscription's latest fetch, for deduping the next one
+  const seenFeedEntries = new Map<number, Set<string>>();
+
+  // Relays entries that are new since the previous poll. The first poll in this process
+  // can't tell which entries were relayed before a restart, so it only takes entries
+  // published after the last recorded poll.
+  const pollFeed = async (subscription: FeedSubscription) => {
+    const polledAt = new Date();
+    try {
+      const feed = await fetchFeed(subscription.url);
+      const seen = seenFeedEntries.get(subscription.id);
+      const { lastPolledAt } = subscription;
+      const isNew = (entry: FeedEntry) => seen
+        ? !seen.has(entry.id)
+        : Boolean(lastPolledAt && entry.publishedAt && entry.publishedAt > lastPolledAt);
+      const entryIds = feed.entries.map((entry) => entry.id);
+      seenFeedEntries.set(subscription.id, new Set(entryIds));
+      publishBusEvent({ kind: 'feedPolled', id: subscription.id, entryIds });
+
+      // Feeds list newest first; whirl the newest few in oldest-first order
+      const fresh = feed.entries.filter(isNew).slice(0, MAX_FEED_ENTRIES_PER_POLL).reverse();
+      for (const entry of fresh) {
+        const link = entry.link && /^https?:\/\//i.test(entry.link) ? entry.link : undefined;
+        await relayToRoom(subscription.room, {
+          username: entry.author ? stripHtml(entry.author) : subscription.label,
+          content: truncate(stripHtml(entry.title), MAX_RELAY_CONTENT),
+          sourceUrl: feed.link && /^https?:\/\//i.test(feed.link) ? feed.link : subscription.url,
+          sourceLabel: subscription.label,
+          sourceBadge: subscription.badgeStyle,
+          storyUrl: link,
+          storyLabel: link ? "Story" : undefined,
+        });
+      }
+
+      await storage.recordFeedPoll(subscription.id, polledAt, null);
+      return fresh.length;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[feeds] failed to poll ${subscription.url}`, message);
+      await storage.recordFeedPoll(subscription.id, polledAt, message);
+      throw error;
+    }
   };
 
+  // Every instance would relay the same entries, so only the one with the lowest id polls;
+  // if it goes quiet the bus heartbeat drops it and the next one takes over
+  const isFeedPoller = () => Array.from(remoteInstances.keys()).every((origin) => instanceId < origin);
+
+  let feedPollRunning = false;
+  const feedPoller = setInterval(async () => {
+    if (feedPollRunning || !isFeedPoller()) return;
+    feedPollRunning = true;
+    try {
+      const subscriptions = await storage.getFeedSubscriptions();
+      for (const subscription of subscriptions) {
+        await pollFeed(subscription).catch(() => undefined); // Already logged and recorded
+      }
+    } catch (error) {
+      console.error("[feeds] poll sweep failed", error);
+    } finally {
+      feedPollRunning = false;
+    }
+  }, FEED_POLL_INTERVAL);
+  httpServer.on('close', () => clearInterval(feedPoller));
+
   app.post('/api/relay/hn-item', async (req, res) => {
     try {
-      if (HOCKER_PUSH_TOKEN) {
+      if (HOCKER_SIGNING_SECRET) {
+        if (!verifySignedPush(req, res, 'hn-item', HOCKER_SIGNING_SECRET)) return;
+      } else if (HOCKER_PUSH_TOKEN) {
         const token = req.header('x-hocker-token') || "";
-        if (token !== HOCKER_PUSH_TOKEN) {
+        if (!tokensMatch(token, HOCKER_PUSH_TOKEN)) {
           res.status(401).json({ error: "Unauthorized relay token" });
           return;
         }
@@ -231,6 +2010,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const room = payload.room || HOCKER_RELAY_ROOM;
+      const limit = consumeRateLimit('relay', room, [`ip:${clientIp(req)}`], await getRateLimits(room));
+      if (!limit.allowed) {
+        res.set('Retry-After', String(Math.ceil(limit.retryAfterMs / 1000)));
+        res.status(429).json({ error: "Relay rate limit exceeded", retryAfterMs: limit.retryAfterMs });
+        return;
+      }
+
       await relayHockerItem(item, room);
       res.json({ ok: true, hnId: item.hnId, room });
     } catch (error) {
@@ -239,72 +2025,307 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Enhanced rate limiting helper
-  const checkRateLimit = (ws: ExtendedWebSocket): boolean => {
-    const now = Date.now();
-    const windowMs = 60000; // 1 minute window
-    const maxMessages = 50; // Increased back to reasonable limit for development
-    const minInterval = 50; // Reduced to 50ms for more responsive typing
-    
-    // Check minimum interval (only if we have a previous message time)
-    if (ws.lastMessageTime && now - ws.lastMessageTime < minInterval) {
-      return false;
-    }
-    
-    // Reset counter if window has passed
-    if (!ws.lastResetTime || now - ws.lastResetTime > windowMs) {
-      ws.messageCount = 0;
-      ws.lastResetTime = now;
-    }
-    
-    ws.messageCount = (ws.messageCount || 0) + 1;
-    
-    if (ws.messageCount > maxMessages) {
-      return false; // Rate limit exceeded
+  // Registered webhook sources; each maps its own payload shape onto a relayed message
+  app.post('/api/relay/:sourceId', async (req, res) => {
+    try {
+      const source = await storage.getRelaySource(req.params.sourceId);
+      if (!source) {
+        res.status(404).json({ error: "Unknown relay source" });
+        return;
+      }
+      if (source.signed) {
+        if (!verifySignedPush(req, res, source.id, source.token)) return;
+      } else if (!tokensMatch(req.header('x-relay-token') || "", source.token)) {
+        res.status(401).json({ error: "Unauthorized relay token" });
+        return;
+      }
+
+      const { fieldMapping } = source;
+      const title = stripHtml(readPayloadField(req.body, fieldMapping.title) || "");
+      const text = htmlToParagraphs(readPayloadField(req.body, fieldMapping.text) || "").join(" ");
+      const content = title || text;
+      if (!content) {
+        res.status(400).json({ error: "Payload has no value at the mapped title or text path" });
+        return;
+      }
+      const url = readPayloadField(req.body, fieldMapping.url);
+
+      const relayed: string[] = [];
+      const retryAfter: number[] = [];
+      for (const room of source.rooms) {
+        const limit = consumeRateLimit('relay', room, [`source:${source.id}`, `ip:${clientIp(req)}`], await getRateLimits(room));
+        if (!limit.allowed) {
+          retryAfter.push(limit.retryAfterMs);
+          continue;
+        }
+        await relayToRoom(room, {
+          username: readPayloadField(req.body, fieldMapping.author) || source.label,
+          content: truncate(content, MAX_RELAY_CONTENT),
+          sourceUrl: url && /^https?:\/\//i.test(url) ? url : undefined,
+          sourceLabel: source.label,
+          sourceBadge: source.badgeStyle,
+        });
+        relayed.push(room);
+      }
+
+      if (relayed.length === 0) {
+        const retryAfterMs = Math.min(...retryAfter);
+        res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+        res.status(429).json({ error: "Relay rate limit exceeded", retryAfterMs });
+        return;
+      }
+      res.json({ ok: true, source: source.id, rooms: relayed });
+    } catch (error) {
+      console.error(`[relay] inbound push from ${req.params.sourceId} failed`, error);
+      res.status(500).json({ error: "Failed to process relay push" });
     }
-    
-    return true;
+  });
+
+  // Each frame kind draws from its own buckets, shared by every socket of the session and of the IP
+  const checkRateLimit = async (ws: ExtendedWebSocket, type: WSMessage['type']): Promise<RateLimitResult> => {
+    const kind = FRAME_RATE_LIMITS[type];
+    const token = ws.token!;
+    if (!kind) return { allowed: true };
+
+    const keys = [`session:${token.sessionId}`, ...(ws.ip ? [`ip:${ws.ip}`] : [])];
+    return consumeRateLimit(kind, token.room, keys, await getRateLimits(token.room));
   };
 
+  // Protocol-level pings; a socket that didn't answer the previous round is half-open.
+  // Terminating it runs the usual close handling, so it drops out of presence too.
+  const socketHeartbeat = setInterval(() => {
+    clients.forEach((client) => {
+      if (!client.isAlive) {
+        console.log(`Terminating unresponsive WebSocket for user ${client.username}`);
+        client.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.ping();
+    });
+  }, SOCKET_PING_INTERVAL);
+  httpServer.on('close', () => clearInterval(socketHeartbeat));
+
   wss.on('connection', (ws: ExtendedWebSocket, req) => {
     console.log('New WebSocket connection');
+
+    // Every socket needs a token from /api/ws-token; its room wins over ?room=
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const verified = verifySocketToken(url.searchParams.get('token'));
+    if ('error' in verified) {
+      ws.close(WS_CLOSE_TOKEN_REJECTED, `Socket token ${verified.error}`);
+      return;
+    }
+    ws.token = verified.claims;
+    ws.ip = clientIp(req);
+    ws.isAlive = true;
+    ws.on('pong', () => {
+      ws.isAlive = true;
+    });
     clients.add(ws);
     
-    // Initialize rate limiting - don't set lastMessageTime on connection
-    ws.messageCount = 0;
-    ws.lastResetTime = Date.now();
+    ws.unlockedRooms = new Set();
+    ws.account = (req as express.Request).session?.account?.username;
     // ws.lastMessageTime will be set when first message is received
     
-    // Extract room from query params
-    const url = new URL(req.url || '', `http://${req.headers.host}`);
-    const room = url.searchParams.get('room') || 'global';
-    ws.room = room;
+    // A private room only delivers once the join passes
+    const room = ws.token.room;
+    getActiveBans(room)
+      .then((bans) => {
+        const ban = findBan(bans, ws);
+        if (ban) ws.close(WS_CLOSE_BANNED, banMessage(ban));
+      })
+      .catch((error) => console.error('Failed to check room bans:', error));
+    getPassphraseHash(room)
+      .then((hash) => {
+        if (!hash && ws.room === undefined) ws.room = room;
+      })
+      .catch((error) => console.error('Failed to check room access:', error));
 
-    ws.on('message', async (data) => {
+    ws.on('message', async (data, isBinary) => {
       try {
+        ws.isAlive = true;
+
+        let raw: unknown;
+        if (isBinary) {
+          raw = readBinaryKeystroke(ws, data);
+          if (!raw) return;
+        } else {
+          try {
+            raw = JSON.parse(data.toString());
+          } catch {
+            sendProtocolError(ws, 'invalid_json', 'Frames must be JSON objects');
+            return;
+          }
+        }
+
+        const parsed = clientFrameSchema.safeParse(raw);
+        if (!parsed.success) {
+          const type = (raw as { type?: unknown } | null)?.type;
+          const known = typeof type === 'string' && CLIENT_FRAME_TYPES.some((frameType) => frameType === type);
+          sendProtocolError(
+            ws,
+            known ? 'invalid_frame' : 'unknown_type',
+            known ? fromZodError(parsed.error).toString() : `Unknown frame type ${JSON.stringify(type ?? null)}`,
+            raw,
+          );
+          return;
+        }
+
+        // Negotiation: the highest version both sides speak, and the capabilities both know
+        const frame = parsed.data;
+        if (frame.type === 'hello') {
+          if (ws.protocolVersion !== undefined || ws.username !== undefined) {
+            sendProtocolError(ws, 'unexpected_hello', 'hello must be the first frame on a connection', raw);
+            return;
+          }
+          ws.protocolVersion = Math.min(frame.version, WS_PROTOCOL_VERSION);
+          if (ws.protocolVersion >= 2) {
+            ws.capabilities = new Set(WS_CAPABILITIES.filter((capability) => frame.capabilities.includes(capability)));
+          }
+          const welcome: ServerFrame = {
+            type: 'welcome',
+            version: ws.protocolVersion,
+            capabilities: WS_CAPABILITIES.filter((capability) => hasCapability(ws, capability)),
+            heartbeatMs: CLIENT_PING_INTERVAL,
+          };
+          ws.send(JSON.stringify(welcome));
+          console.log(`WebSocket speaks protocol ${ws.protocolVersion}${frame.client ? ` (${frame.client})` : ''}`);
+          return;
+        }
+        const validatedMessage: WSMessage = frame;
+
+        // Binary edits build on the last text this socket sent, whether or not that keystroke was relayed
+        if (validatedMessage.type === 'keystroke' && validatedMessage.content !== undefined) {
+          ws.typingBase = validatedMessage.content;
+        }
+        if (validatedMessage.fontSize) {
+          ws.fontSize = validatedMessage.fontSize;
+        }
+
         // Check rate limit
-        if (!checkRateLimit(ws)) {
+        const limit = await checkRateLimit(ws, validatedMessage.type);
+        if (!limit.allowed) {
           console.log(`Rate limit exceeded for user ${ws.username}`);
+          // One audit event per throttled streak, not one per dropped frame
+          if (!ws.rateLimited) {
+            ws.rateLimited = true;
+            audit({ room: ws.token!.room, username: validatedMessage.username, reason: 'rate_limit', detail: validatedMessage.type });
+          }
+          sendRejection(ws, validatedMessage, 'rate_limit', limit.retryAfterMs);
+          return;
+        }
+        ws.rateLimited = false;
+
+        // Latency probes skip the checks below so the reading reflects the connection alone
+        if (validatedMessage.type === 'ping') {
+          ws.send(JSON.stringify({
+            type: 'pong',
+            username: validatedMessage.username,
+            room: validatedMessage.room,
+            nonce: validatedMessage.nonce,
+          }));
           return;
         }
-        
-        const message = JSON.parse(data.toString()) as WSMessage;
-        const validatedMessage = wsMessageSchema.parse(message);
         
         const now = Date.now();
+
+        // Frames must stay inside the token's scope, and an expired token ends the socket
+        const token = ws.token!;
+        if (token.expiresAt <= now) {
+          ws.close(WS_CLOSE_TOKEN_REJECTED, 'Socket token expired');
+          return;
+        }
+        if (validatedMessage.username !== token.username || validatedMessage.room !== token.room) {
+          console.log(`Rejected ${validatedMessage.type} outside token scope from user ${validatedMessage.username}`);
+          audit({
+            room: token.room,
+            username: validatedMessage.username,
+            reason: 'out_of_scope',
+            detail: validatedMessage.type,
+            content: validatedMessage.content,
+          });
+          sendRejection(ws, validatedMessage, 'out_of_scope');
+          return;
+        }
+
+        // Moderation is enforced before anything is stored or broadcast
+        const ban = findBan(
+          await getActiveBans(validatedMessage.room),
+          ws,
+          ws.browserFingerprint ?? validatedMessage.browserFingerprint,
+        );
+        if (ban) {
+          ws.close(WS_CLOSE_BANNED, banMessage(ban));
+          audit({
+            room: validatedMessage.room,
+            username: validatedMessage.username,
+            reason: 'banned',
+            detail: `ban #${ban.id}`,
+            content: validatedMessage.content,
+          });
+          return;
+        }
+        const mutedUntil = getMutedUntil(validatedMessage.room, validatedMessage.username);
+        if (mutedUntil && ['keystroke', 'newMessage', 'editMessage'].includes(validatedMessage.type)) {
+          sendMuteNotice(ws, validatedMessage.room, validatedMessage.username, mutedUntil);
+          sendRejection(ws, validatedMessage, 'muted');
+          // Typing while muted would flood the log, so only completed messages are recorded
+          if (validatedMessage.type !== 'keystroke') {
+            audit({
+              room: validatedMessage.room,
+              username: validatedMessage.username,
+              reason: 'muted',
+              detail: validatedMessage.type,
+              content: validatedMessage.content,
+            });
+          }
+          return;
+        }
+
+        // Private rooms: the join must carry the passphrase before anything else is accepted
+        if (!ws.unlockedRooms?.has(validatedMessage.room) && await getPassphraseHash(validatedMessage.room)) {
+          const admitted = validatedMessage.type === 'join' &&
+            await canAccessRoom(validatedMessage.room, validatedMessage.passphrase);
+          if (!admitted) {
+            if (ws.room === validatedMessage.room) ws.room = undefined;
+            ws.send(JSON.stringify({
+              type: 'accessDenied',
+              username: validatedMessage.username,
+              room: validatedMessage.room,
+              error: validatedMessage.passphrase
+                ? 'Incorrect passphrase for this room.'
+                : 'This room is private. Enter its passphrase to join.',
+            }));
+            return;
+          }
+          ws.unlockedRooms?.add(validatedMessage.room);
+        }
         
         // Session and username validation for all message types with usernames
         if (validatedMessage.username) {
-          // For join messages, we need session info
+          // Registered names are reserved in every room for their account
+          if (ws.account !== validatedMessage.username && await isRegisteredName(validatedMessage.username)) {
+            ws.send(JSON.stringify({
+              type: 'nameError',
+              username: validatedMessage.username,
+              room: validatedMessage.room,
+              error: `Username "${validatedMessage.username}" belongs to a registered account. Log in to use it.`
+            }));
+            return;
+          }
+
+          // For join messages, we need session info; the session id comes from the signed token
           if (validatedMessage.type === 'join') {
-            const sessionId = validatedMessage.sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+            const sessionId = token.sessionId;
             const browserFingerprint = validatedMessage.browserFingerprint || 'unknown';
             
             const validation = validateNameOwnership(
               validatedMessage.username, 
               validatedMessage.room, 
               sessionId, 
-              browserFingerprint
+              browserFingerprint,
+              ws.account
             );
             
             if (!validation.allowed) {
@@ -331,7 +2352,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 validatedMessage.username, 
                 validatedMessage.room, 
                 ws.sessionId, 
-                ws.browserFingerprint
+                ws.browserFingerprint,
+                ws.account
               );
               
               if (!validation.allowed) {
@@ -348,27 +2370,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
-        // Enhanced content validation
+        // Content filters: rejected frames are dropped, masked ones continue with the rewritten text
+        const auditContent = (reason: AuditReason, detail: string = validatedMessage.type) => audit({
+          room: validatedMessage.room,
+          username: validatedMessage.username,
+          reason,
+          detail,
+          content: validatedMessage.content,
+        });
+        // Keystrokes are left out of the log like flags below: one message would leave a row per character
+        const rejectContent = (reason: RejectionReason, detail?: string) => {
+          if (validatedMessage.type !== 'keystroke') auditContent(reason, detail);
+          sendRejection(ws, validatedMessage, reason);
+        };
         if (validatedMessage.content) {
-          // Reduced length limit
-          if (validatedMessage.content.length > 200) {
-            console.log(`Message too long from user ${validatedMessage.username}`);
+          const outcome = runContentFilters(
+            validatedMessage.content,
+            await getContentFilters(validatedMessage.room),
+            validatedMessage.type === 'keystroke',
+          );
+          if (outcome.rejected) {
+            console.log(`Content filter "${outcome.hit.filter}" rejected message from user ${validatedMessage.username}`);
+            rejectContent(outcome.hit.reason, outcome.hit.detail);
             return;
           }
-          
-          // Detect repeated characters (spam pattern)
-          const repeatedChars = /(.)\1{10,}/g;
-          if (repeatedChars.test(validatedMessage.content)) {
-            console.log(`Repeated character spam from user ${validatedMessage.username}`);
-            return;
-          }
-          
-          // Detect excessive special characters
-          const specialCharCount = (validatedMessage.content.match(/[^a-zA-Z0-9\s]/g) || []).length;
-          if (specialCharCount > validatedMessage.content.length * 0.5) {
-            console.log(`Excessive special characters from user ${validatedMessage.username}`);
-            return;
+
+          // Flags only leave an audit trail; skip keystrokes so one message isn't flagged per character
+          if (validatedMessage.type !== 'keystroke') {
+            outcome.hits
+              .filter((hit) => hit.action === 'flag')
+              .forEach((hit) => auditContent(hit.reason, `flagged: ${hit.detail}`));
           }
+          validatedMessage.content = outcome.content;
         }
         
         // Update session last seen time
@@ -378,12 +2411,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
           activeSessions.set(ws.sessionId, session);
         }
         
+        const previousRoom = ws.room;
         ws.username = validatedMessage.username;
         ws.room = validatedMessage.room;
-        ws.lastMessageTime = now; // Update after successful rate limit check
+        if (validatedMessage.type !== 'away') {
+          ws.lastMessageTime = now;
+        }
+        if (validatedMessage.userColor) {
+          ws.userColor = validatedMessage.userColor;
+        }
+        if (validatedMessage.away !== undefined && ['join', 'away'].includes(validatedMessage.type)) {
+          ws.away = validatedMessage.away;
+        }
 
         switch (validatedMessage.type) {
           case 'keystroke':
+            setTyping(ws, Boolean(validatedMessage.isTyping && validatedMessage.content));
             // Broadcast keystroke to all clients in the same room
             broadcastToRoom(validatedMessage.room, {
               type: 'keystroke',
@@ -398,15 +2441,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
             break;
             
           case 'newMessage':
-            // Save completed message and broadcast
+            setTyping(ws, false);
+            // Save completed message and broadcast the stored id/timestamp so
+            // every client refers to the same record
+            let stored: Message | undefined;
             if (validatedMessage.content && validatedMessage.yPosition !== undefined) {
-              await storage.addMessage({
+              stored = await storage.addMessage({
                 username: validatedMessage.username,
                 content: validatedMessage.content,
                 room: validatedMessage.room,
                 isTyping: false,
                 xPosition: validatedMessage.xPosition ?? 0, // Messages start near right edge
                 yPosition: validatedMessage.yPosition,
+                userColor: validatedMessage.userColor,
+                fontSize: validatedMessage.fontSize,
                 sourceUrl: validatedMessage.sourceUrl,
                 sourceLabel: validatedMessage.sourceLabel,
                 storyUrl: validatedMessage.storyUrl,
@@ -427,16 +2475,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
               storyUrl: validatedMessage.storyUrl,
               storyLabel: validatedMessage.storyLabel,
               serverPrepared: validatedMessage.serverPrepared,
+              id: stored?.id,
+              timestamp: stored?.timestamp.toISOString(),
+              nonce: validatedMessage.nonce,
             }, ws);
+
+            if (stored && ws.sessionId) {
+              const owner = { sessionId: ws.sessionId, room: stored.room, createdAt: now };
+              messageOwners.set(stored.id, owner);
+              publishBusEvent({ kind: 'messageOwner', id: stored.id, owner });
+            }
+
+            // Let the sender reconcile its optimistic bubble with the stored record
+            if (stored && validatedMessage.nonce) {
+              ws.send(JSON.stringify({
+                type: 'ack',
+                username: validatedMessage.username,
+                room: validatedMessage.room,
+                nonce: validatedMessage.nonce,
+                id: stored.id,
+                timestamp: stored.timestamp.toISOString(),
+                content: stored.content, // May have been masked by a content filter
+              }));
+            }
             break;
             
-          case 'join':
+          case 'editMessage': {
+            if (!validatedMessage.content || !canModifyMessage(ws, validatedMessage.id, validatedMessage.room)) {
+              console.log(`Rejected edit of message ${validatedMessage.id} from user ${validatedMessage.username}`);
+              rejectContent('edit_rejected', `message #${validatedMessage.id}`);
+              return;
+            }
+
+            const edited = await storage.updateMessage(validatedMessage.id!, {
+              content: validatedMessage.content,
+              editedAt: new Date(),
+            });
+            if (!edited) return;
+
+            broadcastToRoom(validatedMessage.room, {
+              type: 'editMessage',
+              username: edited.username,
+              room: edited.room,
+              id: edited.id,
+              content: edited.content,
+              editedAt: edited.editedAt?.toISOString(),
+            }, ws);
+            break;
+          }
+
+          case 'deleteMessage': {
+            if (!canModifyMessage(ws, validatedMessage.id, validatedMessage.room)) {
+              console.log(`Rejected retraction of message ${validatedMessage.id} from user ${validatedMessage.username}`);
+              rejectContent('retract_rejected', `message #${validatedMessage.id}`);
+              return;
+            }
+
+            const id = validatedMessage.id!;
+            messageOwners.delete(id);
+            publishBusEvent({ kind: 'messageOwner', id, owner: null });
+            if (!(await storage.deleteMessage(id))) return;
+
+            broadcastToRoom(validatedMessage.room, {
+              type: 'deleteMessage',
+              username: validatedMessage.username,
+              room: validatedMessage.room,
+              id,
+            }, ws);
+            break;
+          }
+
+          case 'join': {
             broadcastToRoom(validatedMessage.room, {
               type: 'join',
               username: validatedMessage.username,
               room: validatedMessage.room,
             }, ws);
+            // A reconnecting client gets what it missed, if it was counting with our numbers
+            const { lastSeq, replayEpoch } = validatedMessage;
+            if (lastSeq !== undefined && replayEpoch === instanceId && hasCapability(ws, 'replay')) {
+              framesSince(validatedMessage.room, lastSeq).forEach((frame) => ws.send(JSON.stringify(frame)));
+            }
+            // Late joiners get the whole roster; everyone else hears about them via presenceDiff
+            ws.send(JSON.stringify({
+              type: 'presence',
+              username: validatedMessage.username,
+              room: validatedMessage.room,
+              users: getRoomPresence(validatedMessage.room),
+              heartbeatMs: CLIENT_PING_INTERVAL,
+              replayEpoch: instanceId,
+              seq: replayBuffers.get(validatedMessage.room)?.seq ?? 0,
+            }));
+            if (mutedUntil) {
+              sendMuteNotice(ws, validatedMessage.room, validatedMessage.username, mutedUntil);
+            }
             break;
+          }
             
           case 'leave':
             broadcastToRoom(validatedMessage.room, {
@@ -446,6 +2580,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }, ws);
             break;
         }
+
+        refreshPresence(validatedMessage.room);
+        if (previousRoom && previousRoom !== validatedMessage.room) {
+          refreshPresence(previousRoom);
+        }
       } catch (error) {
         console.error('Error processing WebSocket message:', error);
       }
@@ -454,6 +2593,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     ws.on('close', () => {
       console.log('WebSocket connection closed');
       clients.delete(ws);
+      setTyping(ws, false);
+      if (ws.room) {
+        refreshPresence(ws.room);
+      }
       
       // Update session connection count
       if (ws.sessionId && activeSessions.has(ws.sessionId)) {
@@ -490,14 +2633,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Reaches the room on every instance; the sender socket, if any, is one of ours
   function broadcastToRoom(room: string, message: Partial<WSMessage>, sender?: ExtendedWebSocket) {
+    deliverToRoom(room, message, sender);
+    publishBusEvent({ kind: 'broadcast', room, message });
+  }
+
+  function deliverToRoom(room: string, message: Partial<WSMessage>, sender?: ExtendedWebSocket) {
+    const frame = message.type && REPLAYED_FRAMES.has(message.type) ? recordReplayFrame(room, message) : message;
+    const keystroke = trackTyping(room, frame);
+    const json = once(() => JSON.stringify(frame));
     clients.forEach((client) => {
       if (client.room === room && 
           client.readyState === WebSocket.OPEN) {
         // Send to all clients in the room, including other tabs of the same user
         // Only exclude the exact sender WebSocket connection
-        if (client !== sender) {
-          client.send(JSON.stringify(message));
+        if (client !== sender && canReceive(client, frame.type)) {
+          if (keystroke && hasCapability(client, 'binaryKeystrokes')) {
+            sendBinaryKeystroke(client, keystroke);
+          } else {
+            client.send(json());
+          }
         }
       }
     });
@@ -0,0 +1,110 @@
+// Shared query parsing, matching and snippet building for message search, so
+// every storage backend interprets a query the same way.
+
+// A clause is a single word or a quoted phrase; a trailing * makes its last word a prefix
+export type SearchClause = {
+  tokens: string[];
+  prefix: boolean;
+};
+
+type Token = { text: string; start: number; end: number };
+
+const SNIPPET_RADIUS = 60;
+
+const wordPattern = () => new RegExp("[\\p{L}\\p{N}_]+", "gu");
+
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = wordPattern();
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ text: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+};
+
+export const parseSearchQuery = (query: string): SearchClause[] => {
+  const clauses: SearchClause[] = [];
+  const pattern = /"([^"]*)"(\*?)|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const raw = match[1] ?? match[3];
+    const prefix = match[1] !== undefined ? match[2] === "*" : raw.endsWith("*");
+    const tokens = tokenize(raw).map((token) => token.text);
+    if (match[1] !== undefined) {
+      if (tokens.length) clauses.push({ tokens, prefix });
+    } else {
+      // Unquoted words split on punctuation behave like one clause per word
+      tokens.forEach((token, index) => {
+        clauses.push({ tokens: [token], prefix: prefix && index === tokens.length - 1 });
+      });
+    }
+  }
+
+  return clauses;
+};
+
+export const tokenMatches = (clause: SearchClause, index: number, token: string) => {
+  const wanted = clause.tokens[index];
+  return clause.prefix && index === clause.tokens.length - 1
+    ? token.startsWith(wanted)
+    : token === wanted;
+};
+
+// Returns the character ranges that satisfy every clause, or null if any clause misses
+export const matchClauses = (content: string, clauses: SearchClause[]): Array<[number, number]> | null => {
+  const tokens = tokenize(content);
+  const ranges: Array<[number, number]> = [];
+
+  for (const clause of clauses) {
+    let found = false;
+    for (let i = 0; i + clause.tokens.length <= tokens.length; i++) {
+      const matches = clause.tokens.every((_, offset) => tokenMatches(clause, offset, tokens[i + offset].text));
+      if (matches) {
+        ranges.push([tokens[i].start, tokens[i + clause.tokens.length - 1].end]);
+        found = true;
+      }
+    }
+    if (!found) return null;
+  }
+
+  return ranges.sort((a, b) => a[0] - b[0]);
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// HTML-escaped excerpt around the first hit with every hit wrapped in <mark>
+export const buildSnippet = (content: string, ranges: Array<[number, number]>): string => {
+  const first = ranges[0] ?? [0, 0];
+  const start = Math.max(0, first[0] - SNIPPET_RADIUS);
+  const end = Math.min(content.length, first[1] + SNIPPET_RADIUS);
+
+  let snippet = start > 0 ? "…" : "";
+  let cursor = start;
+  for (const [rangeStart, rangeEnd] of ranges) {
+    if (rangeEnd <= cursor || rangeStart >= end) continue;
+    const from = Math.max(rangeStart, cursor);
+    const to = Math.min(rangeEnd, end);
+    snippet += escapeHtml(content.slice(cursor, from));
+    snippet += `<mark>${escapeHtml(content.slice(from, to))}</mark>`;
+    cursor = to;
+  }
+  snippet += escapeHtml(content.slice(cursor, end));
+
+  return end < content.length ? `${snippet}…` : snippet;
+};
+
+// Postgres ARE equivalent of a clause, using \m / \M word boundaries
+export const clauseToPattern = (clause: SearchClause): string =>
+  clause.tokens
+    .map((token, index) => {
+      const open = index === clause.tokens.length - 1 && clause.prefix;
+      return `\\m${token}${open ? "" : "\\M"}`;
+    })
+    .join("[^[:alnum:]_]+");
@@ -0,0 +1,213 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { InsertMessage, TranscriptEntry } from "@shared/schema";
+import type { Database } from "./db";
+import { DEFAULT_RETENTION_POLICY, DrizzleStorage, MemStorage, type IStorage } from "./storage";
+
+const message = (room: string, content: string, username = "alice"): InsertMessage => ({
+  username,
+  content,
+  room,
+  isTyping: false,
+  xPosition: 10,
+  yPosition: 50,
+});
+
+// Both implementations run the same suite; DrizzleStorage gets an in-process Postgres
+// with the checked-in migrations applied, so schema drift fails here too
+const implementations: [string, () => Promise<{ storage: IStorage; close: () => Promise<void> }>][] = [
+  ["MemStorage", async () => ({ storage: new MemStorage(), close: async () => {} })],
+  ["DrizzleStorage", async () => {
+    const client = new PGlite();
+    const db = drizzle({ client, schema });
+    await migrate(db, { migrationsFolder: "migrations" });
+    return { storage: new DrizzleStorage(db as unknown as Database), close: () => client.close() };
+  }],
+];
+
+for (const [name, open] of implementations) {
+  describe(name, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+
+    before(async () => {
+      ({ storage, close } = await open());
+    });
+    after(() => close());
+
+    it("stores messages and returns recent ones oldest first", async () => {
+      await storage.addMessage(message("recent", "one"));
+      await storage.addMessage(message("recent", "two"));
+      await storage.addMessage(message("elsewhere", "three"));
+
+      assert.deepEqual((await storage.getRecentMessages("recent")).map((m) => m.content), ["one", "two"]);
+      assert.deepEqual((await storage.getRecentMessages("recent", 1)).map((m) => m.content), ["two"]);
+    });
+
+    it("pages through history with id cursors in both directions", async () => {
+      const added = [];
+      for (const content of ["a", "b", "c", "d", "e"]) added.push(await storage.addMessage(message("paged", content)));
+
+      const newest = await storage.queryMessages("paged", { limit: 2 });
+      assert.deepEqual(newest.messages.map((m) => m.content), ["d", "e"]);
+      assert.equal(newest.nextCursor, `id:${added[3].id}`);
+
+      const older = await storage.queryMessages("paged", { before: { id: added[3].id }, limit: 2 });
+      assert.deepEqual(older.messages.map((m) => m.content), ["b", "c"]);
+
+      const newer = await storage.queryMessages("paged", { after: { id: added[0].id }, limit: 10 });
+      assert.deepEqual(newer.messages.map((m) => m.content), ["b", "c", "d", "e"]);
+      assert.equal(newer.nextCursor, null);
+    });
+
+    it("fills a search page past rows that only look like matches", async () => {
+      for (const content of ["mc one", "mc two", "mc three"]) await storage.addMessage(message("near", content));
+      // Postgres ends a word at ², so these pass its regex but not our tokenizer
+      for (let i = 0; i < 5; i++) await storage.addMessage(message("near", `e=mc² take ${i}`));
+
+      const results = await storage.searchMessages("mc", { room: "near", limit: 2 });
+      assert.deepEqual(results.map((result) => result.message.content), ["mc three", "mc two"]);
+    });
+
+    it("searches message content with filters", async () => {
+      await storage.addMessage(message("search", "the quick brown fox"));
+      await storage.addMessage(message("search", "a slow brown dog", "bob"));
+      await storage.addMessage(message("other", "brown paper"));
+
+      const hits = await storage.searchMessages("brown", { room: "search" });
+      assert.deepEqual(hits.map((hit) => hit.message.content).sort(), ["a slow brown dog", "the quick brown fox"]);
+      assert.match(hits[0].snippet, /<mark>brown<\/mark>/);
+
+      const bobs = await storage.searchMessages("brown", { username: "bob" });
+      assert.deepEqual(bobs.map((hit) => hit.message.content), ["a slow brown dog"]);
+    });
+
+    it("edits, deletes and imports messages", async () => {
+      const original = await storage.addMessage(message("edits", "draft"));
+      const edited = await storage.updateMessage(original.id, { content: "final", editedAt: new Date() });
+      assert.equal(edited?.content, "final");
+      assert.ok(edited?.editedAt);
+
+      assert.equal(await storage.deleteMessage(original.id), true);
+      assert.equal(await storage.deleteMessage(original.id), false);
+
+      const now = Date.now();
+      const imported = await storage.importMessages("edits", [
+        { username: "carol", content: "first", timestamp: new Date(now - 2000), xPosition: 0, yPosition: 50 },
+        { username: "carol", content: "second", timestamp: new Date(now - 1000), xPosition: 0, yPosition: 50 },
+      ]);
+      assert.equal(imported, 2);
+      assert.deepEqual((await storage.getRecentMessages("edits")).map((m) => m.content), ["first", "second"]);
+
+      await storage.deleteRoomMessages("edits");
+      assert.deepEqual(await storage.getRecentMessages("edits"), []);
+    });
+
+    it("replaces a room with imports larger than one insert", async () => {
+      await storage.addMessage(message("bulk", "before the import"));
+      const start = Date.now() - 60 * 1000;
+      const entries = Array.from({ length: 5000 }, (_, i) => ({
+        username: "importer",
+        content: `line ${i}`,
+        timestamp: new Date(start + i),
+        xPosition: 0,
+        yPosition: 50,
+      }));
+
+      assert.equal(await storage.importMessages("bulk", entries, true), 5000);
+      const recent = await storage.getRecentMessages("bulk", 10000);
+      assert.equal(recent.length, 5000);
+      assert.equal(recent[0].content, "line 0");
+    });
+
+    it("leaves the room untouched when a replacing import fails", { skip: name === "MemStorage" }, async () => {
+      await storage.addMessage(message("atomic", "keep me"));
+      const broken = [
+        { username: "importer", content: "fine", timestamp: new Date(), xPosition: 0, yPosition: 50 },
+        { username: null, content: "no author", timestamp: new Date(), xPosition: 0, yPosition: 50 },
+      ] as unknown as TranscriptEntry[];
+
+      await assert.rejects(storage.importMessages("atomic", broken, true));
+      assert.deepEqual((await storage.getRecentMessages("atomic")).map((m) => m.content), ["keep me"]);
+    });
+
+    it("enforces per-room retention policies", async () => {
+      assert.deepEqual(await storage.getRetentionPolicy("retained"), DEFAULT_RETENTION_POLICY);
+      await storage.setRetentionPolicy("retained", { maxAgeMinutes: null, maxCount: 2 });
+      for (const content of ["x", "y", "z"]) await storage.addMessage(message("retained", content));
+
+      await storage.applyRetentionPolicies();
+      assert.deepEqual((await storage.getRecentMessages("retained")).map((m) => m.content), ["y", "z"]);
+      assert.deepEqual((await storage.listRetentionPolicies()).retained, { maxAgeMinutes: null, maxCount: 2 });
+    });
+
+    it("keeps room settings apart", async () => {
+      await storage.setRoomPassphraseHash("locked", "hash");
+      await storage.setRoomHidden("hidden", true);
+      const bucket = { capacity: 1, refillPerMinute: 1 };
+      const limits = { keystroke: bucket, message: bucket, join: bucket, presence: bucket, relay: bucket };
+      await storage.setRateLimits("limited", limits);
+
+      assert.equal(await storage.getRoomPassphraseHash("locked"), "hash");
+      assert.deepEqual(await storage.getPrivateRooms(), ["locked"]);
+      assert.deepEqual(await storage.getHiddenRooms(), ["hidden"]);
+      assert.deepEqual(await storage.getRateLimits("limited"), limits);
+      assert.equal(await storage.getContentFilters("limited"), null);
+
+      await storage.setRoomPassphraseHash("locked", null);
+      assert.deepEqual(await storage.getPrivateRooms(), []);
+    });
+
+    it("tracks accounts, moderators and active bans", async () => {
+      const user = await storage.createUser({ username: "dana", passwordHash: "x" });
+      assert.equal((await storage.getUserByUsername("dana"))?.id, user.id);
+
+      await storage.addRoomModerator("modded", "dana");
+      assert.deepEqual(await storage.getRoomModerators("modded"), ["dana"]);
+      assert.equal(await storage.removeRoomModerator("modded", "dana"), true);
+
+      const active = await storage.addRoomBan({ room: "modded", username: "eve", createdBy: "dana" });
+      await storage.addRoomBan({ room: "modded", username: "frank", createdBy: "dana", expiresAt: new Date(Date.now() - 1000) });
+      assert.deepEqual((await storage.getRoomBans("modded")).map((ban) => ban.username), ["eve"]);
+      assert.equal(await storage.deleteRoomBan("modded", active.id), true);
+      assert.deepEqual(await storage.getRoomBans("modded"), []);
+    });
+
+    it("returns audit events newest first", async () => {
+      await storage.addAuditEvent({ room: "audited", username: "eve", actor: "dana", reason: "kick" });
+      await storage.addAuditEvent({ room: "audited", username: "eve", actor: "dana", reason: "ban" });
+
+      const events = await storage.queryAuditEvents({ room: "audited", limit: 10 });
+      assert.deepEqual(events.map((event) => event.reason), ["ban", "kick"]);
+      assert.deepEqual((await storage.queryAuditEvents({ reason: "kick", limit: 10 })).map((event) => event.room), ["audited"]);
+    });
+
+    it("stores relay sources and feed subscriptions", async () => {
+      const source = {
+        id: "ci",
+        label: "CI",
+        badgeStyle: "neutral" as const,
+        token: "0123456789abcdef",
+        signed: false,
+        rooms: ["builds"],
+        fieldMapping: { title: "build.title" },
+      };
+      await storage.saveRelaySource(source);
+      await storage.saveRelaySource({ ...source, label: "Builds" });
+      assert.equal((await storage.getRelaySource("ci"))?.label, "Builds");
+      assert.equal((await storage.getRelaySources()).length, 1);
+      assert.equal(await storage.deleteRelaySource("ci"), true);
+
+      const feed = await storage.addFeedSubscription({ room: "news", url: "http://feeds.test/rss", label: "RSS", badgeStyle: "orange" });
+      await storage.recordFeedPoll(feed.id, new Date(), "timed out");
+      assert.equal((await storage.getFeedSubscriptions("news"))[0].lastError, "timed out");
+      assert.equal(await storage.deleteFeedSubscription("elsewhere", feed.id), false);
+      assert.equal(await storage.deleteFeedSubscription("news", feed.id), true);
+      assert.deepEqual(await storage.getFeedSubscriptions(), []);
+    });
+  });
+}
@@ -1,35 +1,328 @@
-import { messages, type Message, type InsertMessage } from "@shared/schema";
+import { and, asc, desc, eq, gt, gte, isNotNull, isNull, lt, lte, max, notInArray, or, sql, type SQL } from "drizzle-orm";
+import {
+  messages,
+  roomSettings,
+  roomModerators,
+  roomBans,
+  auditEvents,
+  relaySources,
+  feedSubscriptions,
+  users,
+  messageIdCursor,
+  type Message,
+  type MessagePage,
+  type InsertMessage,
+  type InsertUser,
+  type InsertRoomBan,
+  type InsertAuditEvent,
+  type AuditEvent,
+  type InsertRelaySource,
+  type FeedSubscription,
+  type InsertFeedSubscription,
+  type RelaySource,
+  type AuditReason,
+  type ContentFilterConfig,
+  type RateLimitConfig,
+  type RoomBan,
+  type RetentionPolicy,
+  type SearchResult,
+  type TranscriptEntry,
+  type User,
+} from "@shared/schema";
+import { createDatabase, type Database } from "./db";
+import {
+  buildSnippet,
+  clauseToPattern,
+  matchClauses,
+  parseSearchQuery,
+  tokenize,
+  tokenMatches,
+  type SearchClause,
+} from "./search";
+
+// Rooms without an explicit policy keep the original 30-minute whirl behaviour
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAgeMinutes: 30,
+  maxCount: null,
+};
+export const DEFAULT_HISTORY_LIMIT = 100;
+const RETENTION_SWEEP_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const MAX_MEMORY_AUDIT_EVENTS = 10000; // MemStorage keeps only the most recent audit events
+const IMPORT_CHUNK_SIZE = 1000; // Rows per INSERT; Postgres allows 65535 bind parameters and a message takes 14
+
+// Cursors point either at a message id or at an instant in time
+export type MessageCursor = { id: number } | { timestamp: Date };
+
+export interface MessageQuery {
+  before?: MessageCursor;
+  after?: MessageCursor;
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
+
+export interface SearchFilters {
+  room?: string;
+  username?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  excludeRooms?: string[];
+}
+
+const DEFAULT_SEARCH_LIMIT = 50;
+
+export interface AuditFilters {
+  room?: string;
+  username?: string;
+  reason?: AuditReason;
+  limit: number;
+}
+
+// Per-room message statistics for the room directory
+export interface RoomActivity {
+  room: string;
+  lastMessageAt: Date | null;
+  recentMessageCount: number; // messages at or after the requested instant
+}
+
+// Resolved keyset position; an id whose message has expired only bounds by id
+type CursorPosition = { timestamp?: number; id?: number };
+
+const compareToCursor = (message: Message, cursor: CursorPosition) => {
+  if (cursor.timestamp !== undefined) {
+    const diff = new Date(message.timestamp).getTime() - cursor.timestamp;
+    if (diff !== 0) return diff;
+  }
+  return cursor.id === undefined ? 0 : message.id - cursor.id;
+};
+
+const compareChronologically = (a: Message, b: Message) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() || a.id - b.id;
+
+// Pages are always returned oldest-first; reading backwards is the default direction
+const toPage = (rows: Message[], limit: number, ascending: boolean): MessagePage => {
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const chronological = ascending ? page : page.reverse();
+  const edge = ascending ? chronological[chronological.length - 1] : chronological[0];
+
+  return {
+    messages: chronological,
+    nextCursor: hasMore && edge ? messageIdCursor(edge.id) : null,
+  };
+};
 
 export interface IStorage {
   getRecentMessages(room: string, limit?: number): Promise<Message[]>;
+  queryMessages(room: string, query: MessageQuery): Promise<MessagePage>;
+  searchMessages(query: string, filters?: SearchFilters): Promise<SearchResult[]>;
+  importMessages(room: string, entries: TranscriptEntry[], replace?: boolean): Promise<number>; // replace clears the room first
+  deleteRoomMessages(room: string): Promise<void>;
   addMessage(message: InsertMessage): Promise<Message>;
   updateMessage(id: number, updates: Partial<Message>): Promise<Message | undefined>;
+  deleteMessage(id: number): Promise<boolean>;
   deleteOldMessages(olderThanMinutes?: number): Promise<void>;
+  getRetentionPolicy(room: string): Promise<RetentionPolicy>;
+  setRetentionPolicy(room: string, policy: RetentionPolicy): Promise<RetentionPolicy>;
+  listRetentionPolicies(): Promise<Record<string, RetentionPolicy>>;
+  applyRetentionPolicies(): Promise<void>;
+  getRoomActivity(since: Date): Promise<RoomActivity[]>;
+  setRoomHidden(room: string, hidden: boolean): Promise<void>;
+  getHiddenRooms(): Promise<string[]>;
+  getRoomPassphraseHash(room: string): Promise<string | null>;
+  setRoomPassphraseHash(room: string, hash: string | null): Promise<void>;
+  getPrivateRooms(): Promise<string[]>;
+  getContentFilters(room: string): Promise<ContentFilterConfig | null>; // null means the defaults
+  setContentFilters(room: string, config: ContentFilterConfig | null): Promise<void>;
+  getRateLimits(room: string): Promise<RateLimitConfig | null>; // null means the defaults
+  setRateLimits(room: string, config: RateLimitConfig | null): Promise<void>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  getRoomModerators(room: string): Promise<string[]>;
+  addRoomModerator(room: string, username: string): Promise<void>;
+  removeRoomModerator(room: string, username: string): Promise<boolean>;
+  getRoomBans(room: string): Promise<RoomBan[]>; // Active bans only
+  addRoomBan(ban: InsertRoomBan): Promise<RoomBan>;
+  deleteRoomBan(room: string, id: number): Promise<boolean>;
+  addAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  queryAuditEvents(filters: AuditFilters): Promise<AuditEvent[]>; // Newest first
+  getRelaySources(): Promise<RelaySource[]>;
+  getRelaySource(id: string): Promise<RelaySource | undefined>;
+  saveRelaySource(source: InsertRelaySource): Promise<RelaySource>; // Creates or replaces
+  deleteRelaySource(id: string): Promise<boolean>;
+  getFeedSubscriptions(room?: string): Promise<FeedSubscription[]>; // Every room when omitted
+  addFeedSubscription(subscription: InsertFeedSubscription): Promise<FeedSubscription>;
+  deleteFeedSubscription(room: string, id: number): Promise<boolean>;
+  recordFeedPoll(id: number, polledAt: Date, error: string | null): Promise<void>;
 }
 
+const isBanActive = (ban: RoomBan, now: Date) => !ban.expiresAt || ban.expiresAt > now;
+
+// History served to clients follows the room's count cap when it has one
+export const getHistoryLimit = (policy: RetentionPolicy) =>
+  policy.maxCount ?? DEFAULT_HISTORY_LIMIT;
+
 export class MemStorage implements IStorage {
   private messages: Map<number, Message>;
+  private retentionPolicies: Map<string, RetentionPolicy>;
+  private hiddenRooms: Set<string>;
+  private passphraseHashes: Map<string, string>;
+  private contentFilters: Map<string, ContentFilterConfig>;
+  private rateLimits: Map<string, RateLimitConfig>;
+  private users: Map<number, User>;
+  private moderators: Map<string, Set<string>>; // room -> usernames
+  private relaySources: Map<string, RelaySource>;
+  private feedSubscriptions: Map<number, FeedSubscription>;
+  private bans: Map<number, RoomBan>;
+  private auditLog: AuditEvent[];
+  private searchIndex: Map<string, Set<number>>; // token -> message ids
   private currentId: number;
+  private currentUserId: number;
+  private currentBanId: number;
+  private currentAuditId: number;
+  private currentFeedId: number;
 
   constructor() {
     this.messages = new Map();
+    this.retentionPolicies = new Map();
+    this.hiddenRooms = new Set();
+    this.passphraseHashes = new Map();
+    this.contentFilters = new Map();
+    this.rateLimits = new Map();
+    this.users = new Map();
+    this.moderators = new Map();
+    this.relaySources = new Map();
+    this.feedSubscriptions = new Map();
+    this.bans = new Map();
+    this.auditLog = [];
+    this.searchIndex = new Map();
     this.currentId = 1;
+    this.currentUserId = 1;
+    this.currentBanId = 1;
+    this.currentAuditId = 1;
+    this.currentFeedId = 1;
     
-    // Clean up old messages every 5 minutes
+    // Enforce each room's retention policy every 5 minutes
     setInterval(() => {
-      this.deleteOldMessages(30); // Remove messages older than 30 minutes
-    }, 5 * 60 * 1000);
+      this.applyRetentionPolicies();
+    }, RETENTION_SWEEP_INTERVAL).unref();
   }
 
   async getRecentMessages(room: string, limit: number = 50): Promise<Message[]> {
     const roomMessages = Array.from(this.messages.values())
       .filter(msg => msg.room === room)
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .sort((a, b) => compareChronologically(b, a))
       .slice(0, limit);
     
     return roomMessages.reverse(); // Return in chronological order
   }
 
+  async queryMessages(room: string, query: MessageQuery): Promise<MessagePage> {
+    const before = this.resolveCursor(query.before);
+    const after = this.resolveCursor(query.after);
+    const ascending = Boolean(after) && !before;
+
+    const matching = Array.from(this.messages.values())
+      .filter((msg) => {
+        const time = new Date(msg.timestamp).getTime();
+        return msg.room === room &&
+          (!query.since || time >= query.since.getTime()) &&
+          (!query.until || time <= query.until.getTime()) &&
+          (!before || compareToCursor(msg, before) < 0) &&
+          (!after || compareToCursor(msg, after) > 0);
+      })
+      .sort((a, b) => ascending ? compareChronologically(a, b) : compareChronologically(b, a))
+      .slice(0, query.limit + 1);
+
+    return toPage(matching, query.limit, ascending);
+  }
+
+  private resolveCursor(cursor?: MessageCursor): CursorPosition | undefined {
+    if (!cursor) return undefined;
+    if ('timestamp' in cursor) return { timestamp: cursor.timestamp.getTime() };
+
+    const message = this.messages.get(cursor.id);
+    return message
+      ? { timestamp: new Date(message.timestamp).getTime(), id: message.id }
+      : { id: cursor.id };
+  }
+
+  async searchMessages(query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+    const clauses = parseSearchQuery(query);
+    if (clauses.length === 0) return [];
+
+    let candidates: Set<number> | undefined;
+    for (const clause of clauses) {
+      const clauseIds = this.lookupClause(clause);
+      candidates = candidates
+        ? new Set(Array.from(candidates).filter((id) => clauseIds.has(id)))
+        : clauseIds;
+    }
+
+    const results: SearchResult[] = [];
+    Array.from(candidates ?? [])
+      .map((id) => this.messages.get(id))
+      .filter((msg): msg is Message => {
+        if (!msg) return false;
+        const time = new Date(msg.timestamp).getTime();
+        return (!filters.room || msg.room === filters.room) &&
+          !filters.excludeRooms?.includes(msg.room) &&
+          (!filters.username || msg.username === filters.username) &&
+          (!filters.from || time >= filters.from.getTime()) &&
+          (!filters.to || time <= filters.to.getTime());
+      })
+      .sort((a, b) => compareChronologically(b, a))
+      .forEach((message) => {
+        if (results.length >= (filters.limit ?? DEFAULT_SEARCH_LIMIT)) return;
+        const ranges = matchClauses(message.content, clauses);
+        if (ranges) {
+          results.push({ message, snippet: buildSnippet(message.content, ranges) });
+        }
+      });
+
+    return results;
+  }
+
+  // Ids containing every word of the clause; phrase order is checked later by matchClauses
+  private lookupClause(clause: SearchClause): Set<number> {
+    let ids: Set<number> | undefined;
+    clause.tokens.forEach((_, index) => {
+      const tokenIds = new Set<number>();
+      this.searchIndex.forEach((postings, token) => {
+        if (tokenMatches(clause, index, token)) {
+          postings.forEach((id) => tokenIds.add(id));
+        }
+      });
+      ids = ids ? new Set(Array.from(ids).filter((id) => tokenIds.has(id))) : tokenIds;
+    });
+    return ids ?? new Set();
+  }
+
+  private indexMessage(message: Message) {
+    tokenize(message.content).forEach(({ text }) => {
+      const postings = this.searchIndex.get(text) || new Set<number>();
+      postings.add(message.id);
+      this.searchIndex.set(text, postings);
+    });
+  }
+
+  private unindexMessage(message: Message) {
+    tokenize(message.content).forEach(({ text }) => {
+      const postings = this.searchIndex.get(text);
+      if (!postings) return;
+      postings.delete(message.id);
+      if (postings.size === 0) this.searchIndex.delete(text);
+    });
+  }
+
+  private removeMessage(id: number) {
+    const message = this.messages.get(id);
+    if (!message) return;
+    this.unindexMessage(message);
+    this.messages.delete(id);
+  }
+
   async addMessage(insertMessage: InsertMessage): Promise<Message> {
     const id = this.currentId++;
     const message: Message = {
@@ -41,26 +334,73 @@ export class MemStorage implements IStorage {
       timestamp: new Date(),
       xPosition: insertMessage.xPosition,
       yPosition: insertMessage.yPosition,
-      userColor: null,
-      fontSize: null,
+      userColor: insertMessage.userColor || null,
+      fontSize: insertMessage.fontSize || null,
       sourceUrl: insertMessage.sourceUrl || null,
       sourceLabel: insertMessage.sourceLabel || null,
+      sourceBadge: insertMessage.sourceBadge || null,
       storyUrl: insertMessage.storyUrl || null,
       storyLabel: insertMessage.storyLabel || null,
+      editedAt: null,
     };
     this.messages.set(id, message);
+    this.indexMessage(message);
     return message;
   }
 
+  async importMessages(room: string, entries: TranscriptEntry[], replace = false): Promise<number> {
+    if (replace) await this.deleteRoomMessages(room);
+    entries.forEach((entry) => {
+      const id = this.currentId++;
+      const message: Message = {
+        id,
+        username: entry.username,
+        content: entry.content,
+        room,
+        isTyping: false,
+        timestamp: entry.timestamp,
+        xPosition: entry.xPosition,
+        yPosition: entry.yPosition,
+        userColor: entry.userColor || null,
+        fontSize: entry.fontSize || null,
+        sourceUrl: entry.sourceUrl || null,
+        sourceLabel: entry.sourceLabel || null,
+        sourceBadge: entry.sourceBadge || null,
+        storyUrl: entry.storyUrl || null,
+        storyLabel: entry.storyLabel || null,
+        editedAt: null,
+      };
+      this.messages.set(id, message);
+      this.indexMessage(message);
+    });
+    return entries.length;
+  }
+
+  async deleteRoomMessages(room: string): Promise<void> {
+    const roomIds: number[] = [];
+    this.messages.forEach((message, id) => {
+      if (message.room === room) roomIds.push(id);
+    });
+    roomIds.forEach(id => this.removeMessage(id));
+  }
+
   async updateMessage(id: number, updates: Partial<Message>): Promise<Message | undefined> {
     const message = this.messages.get(id);
     if (!message) return undefined;
     
     const updatedMessage = { ...message, ...updates };
+    this.unindexMessage(message);
     this.messages.set(id, updatedMessage);
+    this.indexMessage(updatedMessage);
     return updatedMessage;
   }
 
+  async deleteMessage(id: number): Promise<boolean> {
+    if (!this.messages.has(id)) return false;
+    this.removeMessage(id);
+    return true;
+  }
+
   async deleteOldMessages(olderThanMinutes: number = 30): Promise<void> {
     const cutoffTime = new Date(Date.now() - olderThanMinutes * 60 * 1000);
     
@@ -71,8 +411,713 @@ export class MemStorage implements IStorage {
       }
     });
     
-    entriesToDelete.forEach(id => this.messages.delete(id));
+    entriesToDelete.forEach(id => this.removeMessage(id));
+  }
+
+  async getRetentionPolicy(room: string): Promise<RetentionPolicy> {
+    return this.retentionPolicies.get(room) ?? DEFAULT_RETENTION_POLICY;
+  }
+
+  async setRetentionPolicy(room: string, policy: RetentionPolicy): Promise<RetentionPolicy> {
+    this.retentionPolicies.set(room, policy);
+    return policy;
+  }
+
+  async listRetentionPolicies(): Promise<Record<string, RetentionPolicy>> {
+    return Object.fromEntries(Array.from(this.retentionPolicies.entries()));
+  }
+
+  async applyRetentionPolicies(): Promise<void> {
+    const byRoom = new Map<string, Message[]>();
+    this.messages.forEach((message) => {
+      const roomMessages = byRoom.get(message.room) || [];
+      roomMessages.push(message);
+      byRoom.set(message.room, roomMessages);
+    });
+
+    const now = Date.now();
+    byRoom.forEach((roomMessages, room) => {
+      const policy = this.retentionPolicies.get(room) ?? DEFAULT_RETENTION_POLICY;
+      const newestFirst = roomMessages.sort((a, b) => compareChronologically(b, a));
+
+      newestFirst.forEach((message, index) => {
+        const tooOld = policy.maxAgeMinutes !== null &&
+          now - new Date(message.timestamp).getTime() > policy.maxAgeMinutes * 60 * 1000;
+        const overCount = policy.maxCount !== null && index >= policy.maxCount;
+        if (tooOld || overCount) {
+          this.removeMessage(message.id);
+        }
+      });
+    });
+  }
+
+  async getRoomActivity(since: Date): Promise<RoomActivity[]> {
+    const byRoom = new Map<string, RoomActivity>();
+    this.messages.forEach((message) => {
+      const activity = byRoom.get(message.room) ?? { room: message.room, lastMessageAt: null, recentMessageCount: 0 };
+      const timestamp = new Date(message.timestamp);
+      if (!activity.lastMessageAt || timestamp > activity.lastMessageAt) {
+        activity.lastMessageAt = timestamp;
+      }
+      if (timestamp >= since) {
+        activity.recentMessageCount++;
+      }
+      byRoom.set(message.room, activity);
+    });
+    return Array.from(byRoom.values());
+  }
+
+  async setRoomHidden(room: string, hidden: boolean): Promise<void> {
+    if (hidden) {
+      this.hiddenRooms.add(room);
+    } else {
+      this.hiddenRooms.delete(room);
+    }
+  }
+
+  async getHiddenRooms(): Promise<string[]> {
+    return Array.from(this.hiddenRooms);
+  }
+
+  async getRoomPassphraseHash(room: string): Promise<string | null> {
+    return this.passphraseHashes.get(room) ?? null;
+  }
+
+  async setRoomPassphraseHash(room: string, hash: string | null): Promise<void> {
+    if (hash) {
+      this.passphraseHashes.set(room, hash);
+    } else {
+      this.passphraseHashes.delete(room);
+    }
+  }
+
+  async getPrivateRooms(): Promise<string[]> {
+    return Array.from(this.passphraseHashes.keys());
+  }
+
+  async getContentFilters(room: string): Promise<ContentFilterConfig | null> {
+    return this.contentFilters.get(room) ?? null;
+  }
+
+  async setContentFilters(room: string, config: ContentFilterConfig | null): Promise<void> {
+    if (config) {
+      this.contentFilters.set(room, config);
+    } else {
+      this.contentFilters.delete(room);
+    }
+  }
+
+  async getRateLimits(room: string): Promise<RateLimitConfig | null> {
+    return this.rateLimits.get(room) ?? null;
+  }
+
+  async setRateLimits(room: string, config: RateLimitConfig | null): Promise<void> {
+    if (config) {
+      this.rateLimits.set(room, config);
+    } else {
+      this.rateLimits.delete(room);
+    }
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user: User = { ...insertUser, id: this.currentUserId++, createdAt: new Date() };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getRoomModerators(room: string): Promise<string[]> {
+    return Array.from(this.moderators.get(room) ?? []).sort();
+  }
+
+  async addRoomModerator(room: string, username: string): Promise<void> {
+    const moderators = this.moderators.get(room) ?? new Set<string>();
+    moderators.add(username);
+    this.moderators.set(room, moderators);
+  }
+
+  async removeRoomModerator(room: string, username: string): Promise<boolean> {
+    return this.moderators.get(room)?.delete(username) ?? false;
+  }
+
+  async getRoomBans(room: string): Promise<RoomBan[]> {
+    const now = new Date();
+    return Array.from(this.bans.values()).filter((ban) => ban.room === room && isBanActive(ban, now));
+  }
+
+  async addRoomBan(insertBan: InsertRoomBan): Promise<RoomBan> {
+    const ban: RoomBan = {
+      sessionId: null,
+      fingerprint: null,
+      ip: null,
+      reason: null,
+      expiresAt: null,
+      ...insertBan,
+      id: this.currentBanId++,
+      createdAt: new Date(),
+    };
+    this.bans.set(ban.id, ban);
+    return ban;
+  }
+
+  async deleteRoomBan(room: string, id: number): Promise<boolean> {
+    if (this.bans.get(id)?.room !== room) return false;
+    return this.bans.delete(id);
+  }
+
+  async addAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      ...insertEvent,
+      username: insertEvent.username ?? null,
+      actor: insertEvent.actor ?? null,
+      detail: insertEvent.detail ?? null,
+      contentHash: insertEvent.contentHash ?? null,
+      id: this.currentAuditId++,
+      createdAt: new Date(),
+    };
+    this.auditLog.push(event);
+    if (this.auditLog.length > MAX_MEMORY_AUDIT_EVENTS) {
+      this.auditLog.shift();
+    }
+    return event;
+  }
+
+  async queryAuditEvents(filters: AuditFilters): Promise<AuditEvent[]> {
+    const matches: AuditEvent[] = [];
+    for (let index = this.auditLog.length - 1; index >= 0 && matches.length < filters.limit; index--) {
+      const event = this.auditLog[index];
+      if ((!filters.room || event.room === filters.room) &&
+          (!filters.username || event.username === filters.username) &&
+          (!filters.reason || event.reason === filters.reason)) {
+        matches.push(event);
+      }
+    }
+    return matches;
+  }
+
+  async getRelaySources(): Promise<RelaySource[]> {
+    return Array.from(this.relaySources.values());
+  }
+
+  async getRelaySource(id: string): Promise<RelaySource | undefined> {
+    return this.relaySources.get(id);
+  }
+
+  async saveRelaySource(insertSource: InsertRelaySource): Promise<RelaySource> {
+    const now = new Date();
+    const source: RelaySource = {
+      ...insertSource,
+      signed: insertSource.signed ?? false,
+      createdAt: this.relaySources.get(insertSource.id)?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.relaySources.set(source.id, source);
+    return source;
+  }
+
+  async deleteRelaySource(id: string): Promise<boolean> {
+    return this.relaySources.delete(id);
+  }
+
+  async getFeedSubscriptions(room?: string): Promise<FeedSubscription[]> {
+    return Array.from(this.feedSubscriptions.values()).filter((feed) => !room || feed.room === room);
+  }
+
+  async addFeedSubscription(insertSubscription: InsertFeedSubscription): Promise<FeedSubscription> {
+    const subscription: FeedSubscription = {
+      ...insertSubscription,
+      id: this.currentFeedId++,
+      lastPolledAt: null,
+      lastError: null,
+      createdAt: new Date(),
+    };
+    this.feedSubscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async deleteFeedSubscription(room: string, id: number): Promise<boolean> {
+    if (this.feedSubscriptions.get(id)?.room !== room) return false;
+    return this.feedSubscriptions.delete(id);
+  }
+
+  async recordFeedPoll(id: number, polledAt: Date, error: string | null): Promise<void> {
+    const subscription = this.feedSubscriptions.get(id);
+    if (subscription) {
+      this.feedSubscriptions.set(id, { ...subscription, lastPolledAt: polledAt, lastError: error });
+    }
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {
+    // Enforce each room's retention policy every 5 minutes
+    setInterval(() => {
+      this.applyRetentionPolicies().catch((error) => {
+        console.error("[storage] retention sweep failed", error);
+      });
+    }, RETENTION_SWEEP_INTERVAL).unref();
+  }
+
+  async getRecentMessages(room: string, limit: number = 50): Promise<Message[]> {
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.room, room))
+      .orderBy(desc(messages.timestamp), desc(messages.id))
+      .limit(limit);
+
+    return rows.reverse(); // Return in chronological order
+  }
+
+  async queryMessages(room: string, query: MessageQuery): Promise<MessagePage> {
+    const ascending = Boolean(query.after) && !query.before;
+
+    const conditions: (SQL | undefined)[] = [eq(messages.room, room)];
+    if (query.since) conditions.push(gte(messages.timestamp, query.since));
+    if (query.until) conditions.push(lte(messages.timestamp, query.until));
+    if (query.before) conditions.push(await this.cursorCondition(query.before, "before"));
+    if (query.after) conditions.push(await this.cursorCondition(query.after, "after"));
+
+    const order = ascending ? asc : desc;
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(and(...conditions))
+      .orderBy(order(messages.timestamp), order(messages.id))
+      .limit(query.limit + 1);
+
+    return toPage(rows, query.limit, ascending);
+  }
+
+  async searchMessages(query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+    const clauses = parseSearchQuery(query);
+    if (clauses.length === 0) return [];
+
+    const conditions: (SQL | undefined)[] = clauses.map(
+      (clause) => sql`${messages.content} ~* ${clauseToPattern(clause)}`
+    );
+    if (filters.room) conditions.push(eq(messages.room, filters.room));
+    if (filters.username) conditions.push(eq(messages.username, filters.username));
+    if (filters.from) conditions.push(gte(messages.timestamp, filters.from));
+    if (filters.to) conditions.push(lte(messages.timestamp, filters.to));
+    if (filters.excludeRooms?.length) conditions.push(notInArray(messages.room, filters.excludeRooms));
+
+    const limit = filters.limit ?? DEFAULT_SEARCH_LIMIT;
+    const results: SearchResult[] = [];
+    let last: Message | undefined;
+
+    // Postgres word boundaries differ slightly from ours, so re-check while highlighting
+    // and keep reading past the rows that fail until the page is full
+    while (results.length < limit) {
+      const rows = await this.db
+        .select()
+        .from(messages)
+        .where(and(...conditions, last && (await this.cursorCondition({ id: last.id }, "before"))))
+        .orderBy(desc(messages.timestamp), desc(messages.id))
+        .limit(limit);
+
+      for (const message of rows) {
+        const ranges = matchClauses(message.content, clauses);
+        if (ranges) results.push({ message, snippet: buildSnippet(message.content, ranges) });
+        if (results.length === limit) break;
+      }
+      if (rows.length < limit) break;
+      last = rows[rows.length - 1];
+    }
+
+    return results;
+  }
+
+  private async cursorCondition(cursor: MessageCursor, side: "before" | "after"): Promise<SQL> {
+    const beyond = side === "before" ? lt : gt;
+    if ('timestamp' in cursor) return beyond(messages.timestamp, cursor.timestamp);
+
+    const [anchor] = await this.db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(eq(messages.id, cursor.id));
+    if (!anchor) return beyond(messages.id, cursor.id);
+
+    // Compare (timestamp, id) rows in SQL so microsecond timestamps aren't rounded through JS
+    const operator = sql.raw(side === "before" ? "<" : ">");
+    return sql`(${messages.timestamp}, ${messages.id}) ${operator} (select ${messages.timestamp}, ${messages.id} from ${messages} where ${messages.id} = ${cursor.id})`;
+  }
+
+  async addMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await this.db
+      .insert(messages)
+      .values({
+        ...insertMessage,
+        room: insertMessage.room || 'global',
+        isTyping: insertMessage.isTyping || false,
+        // Clients place bubbles with fractional percentages; the columns are integers
+        xPosition: Math.round(insertMessage.xPosition),
+        yPosition: Math.round(insertMessage.yPosition),
+      })
+      .returning();
+    return message;
+  }
+
+  async importMessages(room: string, entries: TranscriptEntry[], replace = false): Promise<number> {
+    // One transaction, so a replace that fails part-way leaves the room as it was
+    return this.db.transaction(async (tx) => {
+      if (replace) await tx.delete(messages).where(eq(messages.room, room));
+
+      let imported = 0;
+      for (let start = 0; start < entries.length; start += IMPORT_CHUNK_SIZE) {
+        const rows = await tx
+          .insert(messages)
+          .values(entries.slice(start, start + IMPORT_CHUNK_SIZE).map((entry) => ({
+            username: entry.username,
+            content: entry.content,
+            room,
+            isTyping: false,
+            timestamp: entry.timestamp,
+            xPosition: Math.round(entry.xPosition),
+            yPosition: Math.round(entry.yPosition),
+            userColor: entry.userColor ?? null,
+            fontSize: entry.fontSize ?? null,
+            sourceUrl: entry.sourceUrl ?? null,
+            sourceLabel: entry.sourceLabel ?? null,
+            sourceBadge: entry.sourceBadge ?? null,
+            storyUrl: entry.storyUrl ?? null,
+            storyLabel: entry.storyLabel ?? null,
+          })))
+          .returning({ id: messages.id });
+        imported += rows.length;
+      }
+      return imported;
+    });
+  }
+
+  async deleteRoomMessages(room: string): Promise<void> {
+    await this.db.delete(messages).where(eq(messages.room, room));
+  }
+
+  async updateMessage(id: number, updates: Partial<Message>): Promise<Message | undefined> {
+    const { id: _ignoredId, ...changes } = updates;
+    if (Object.keys(changes).length === 0) {
+      const [existing] = await this.db.select().from(messages).where(eq(messages.id, id));
+      return existing;
+    }
+
+    const [message] = await this.db
+      .update(messages)
+      .set(changes)
+      .where(eq(messages.id, id))
+      .returning();
+    return message;
+  }
+
+  async deleteMessage(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(messages)
+      .where(eq(messages.id, id))
+      .returning({ id: messages.id });
+    return deleted.length > 0;
+  }
+
+  async deleteOldMessages(olderThanMinutes: number = 30): Promise<void> {
+    const cutoffTime = new Date(Date.now() - olderThanMinutes * 60 * 1000);
+    await this.db.delete(messages).where(lt(messages.timestamp, cutoffTime));
+  }
+
+  async getRetentionPolicy(room: string): Promise<RetentionPolicy> {
+    const [settings] = await this.db
+      .select()
+      .from(roomSettings)
+      .where(eq(roomSettings.room, room));
+    if (!settings) return DEFAULT_RETENTION_POLICY;
+
+    return {
+      maxAgeMinutes: settings.retentionMaxAgeMinutes,
+      maxCount: settings.retentionMaxCount,
+    };
+  }
+
+  async setRetentionPolicy(room: string, policy: RetentionPolicy): Promise<RetentionPolicy> {
+    const values = {
+      retentionMaxAgeMinutes: policy.maxAgeMinutes,
+      retentionMaxCount: policy.maxCount,
+      updatedAt: new Date(),
+    };
+    await this.db
+      .insert(roomSettings)
+      .values({ room, ...values })
+      .onConflictDoUpdate({ target: roomSettings.room, set: values });
+    return policy;
+  }
+
+  async listRetentionPolicies(): Promise<Record<string, RetentionPolicy>> {
+    const rows = await this.db.select().from(roomSettings);
+    return Object.fromEntries(rows.map((settings) => [
+      settings.room,
+      { maxAgeMinutes: settings.retentionMaxAgeMinutes, maxCount: settings.retentionMaxCount },
+    ]));
+  }
+
+  async applyRetentionPolicies(): Promise<void> {
+    const rooms = await this.db.selectDistinct({ room: messages.room }).from(messages);
+
+    for (const { room } of rooms) {
+      const policy = await this.getRetentionPolicy(room);
+
+      if (policy.maxAgeMinutes !== null) {
+        const cutoffTime = new Date(Date.now() - policy.maxAgeMinutes * 60 * 1000);
+        await this.db
+          .delete(messages)
+          .where(and(eq(messages.room, room), lt(messages.timestamp, cutoffTime)));
+      }
+
+      if (policy.maxCount !== null) {
+        const newest = this.db
+          .select({ id: messages.id })
+          .from(messages)
+          .where(eq(messages.room, room))
+          .orderBy(desc(messages.timestamp), desc(messages.id))
+          .limit(policy.maxCount);
+        await this.db
+          .delete(messages)
+          .where(and(eq(messages.room, room), notInArray(messages.id, newest)));
+      }
+    }
+  }
+
+  async getRoomActivity(since: Date): Promise<RoomActivity[]> {
+    const rows = await this.db
+      .select({
+        room: messages.room,
+        lastMessageAt: max(messages.timestamp),
+        recentMessageCount: sql<number>`count(*) filter (where ${messages.timestamp} >= ${since})`.mapWith(Number),
+      })
+      .from(messages)
+      .groupBy(messages.room);
+    return rows;
+  }
+
+  async setRoomHidden(room: string, hidden: boolean): Promise<void> {
+    // A new row must not read as "keep forever", so it starts with the default retention
+    await this.db
+      .insert(roomSettings)
+      .values({
+        room,
+        hidden,
+        retentionMaxAgeMinutes: DEFAULT_RETENTION_POLICY.maxAgeMinutes,
+        retentionMaxCount: DEFAULT_RETENTION_POLICY.maxCount,
+      })
+      .onConflictDoUpdate({ target: roomSettings.room, set: { hidden, updatedAt: new Date() } });
+  }
+
+  async getHiddenRooms(): Promise<string[]> {
+    const rows = await this.db
+      .select({ room: roomSettings.room })
+      .from(roomSettings)
+      .where(eq(roomSettings.hidden, true));
+    return rows.map((row) => row.room);
+  }
+
+  async getRoomPassphraseHash(room: string): Promise<string | null> {
+    const [settings] = await this.db
+      .select({ passphraseHash: roomSettings.passphraseHash })
+      .from(roomSettings)
+      .where(eq(roomSettings.room, room));
+    return settings?.passphraseHash ?? null;
+  }
+
+  async setRoomPassphraseHash(room: string, hash: string | null): Promise<void> {
+    await this.db
+      .insert(roomSettings)
+      .values({
+        room,
+        passphraseHash: hash,
+        retentionMaxAgeMinutes: DEFAULT_RETENTION_POLICY.maxAgeMinutes,
+        retentionMaxCount: DEFAULT_RETENTION_POLICY.maxCount,
+      })
+      .onConflictDoUpdate({ target: roomSettings.room, set: { passphraseHash: hash, updatedAt: new Date() } });
+  }
+
+  async getPrivateRooms(): Promise<string[]> {
+    const rows = await this.db
+      .select({ room: roomSettings.room })
+      .from(roomSettings)
+      .where(isNotNull(roomSettings.passphraseHash));
+    return rows.map((row) => row.room);
+  }
+
+  async getContentFilters(room: string): Promise<ContentFilterConfig | null> {
+    const [settings] = await this.db
+      .select({ contentFilters: roomSettings.contentFilters })
+      .from(roomSettings)
+      .where(eq(roomSettings.room, room));
+    return settings?.contentFilters ?? null;
+  }
+
+  async setContentFilters(room: string, config: ContentFilterConfig | null): Promise<void> {
+    await this.db
+      .insert(roomSettings)
+      .values({
+        room,
+        contentFilters: config,
+        retentionMaxAgeMinutes: DEFAULT_RETENTION_POLICY.maxAgeMinutes,
+        retentionMaxCount: DEFAULT_RETENTION_POLICY.maxCount,
+      })
+      .onConflictDoUpdate({ target: roomSettings.room, set: { contentFilters: config, updatedAt: new Date() } });
+  }
+
+  async getRateLimits(room: string): Promise<RateLimitConfig | null> {
+    const [settings] = await this.db
+      .select({ rateLimits: roomSettings.rateLimits })
+      .from(roomSettings)
+      .where(eq(roomSettings.room, room));
+    return settings?.rateLimits ?? null;
+  }
+
+  async setRateLimits(room: string, config: RateLimitConfig | null): Promise<void> {
+    await this.db
+      .insert(roomSettings)
+      .values({
+        room,
+        rateLimits: config,
+        retentionMaxAgeMinutes: DEFAULT_RETENTION_POLICY.maxAgeMinutes,
+        retentionMaxCount: DEFAULT_RETENTION_POLICY.maxCount,
+      })
+      .onConflictDoUpdate({ target: roomSettings.room, set: { rateLimits: config, updatedAt: new Date() } });
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getRoomModerators(room: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ username: roomModerators.username })
+      .from(roomModerators)
+      .where(eq(roomModerators.room, room))
+      .orderBy(asc(roomModerators.username));
+    return rows.map((row) => row.username);
+  }
+
+  async addRoomModerator(room: string, username: string): Promise<void> {
+    await this.db.insert(roomModerators).values({ room, username }).onConflictDoNothing();
+  }
+
+  async removeRoomModerator(room: string, username: string): Promise<boolean> {
+    const removed = await this.db
+      .delete(roomModerators)
+      .where(and(eq(roomModerators.room, room), eq(roomModerators.username, username)))
+      .returning({ username: roomModerators.username });
+    return removed.length > 0;
+  }
+
+  async getRoomBans(room: string): Promise<RoomBan[]> {
+    return this.db
+      .select()
+      .from(roomBans)
+      .where(and(
+        eq(roomBans.room, room),
+        or(isNull(roomBans.expiresAt), gt(roomBans.expiresAt, new Date())),
+      ))
+      .orderBy(asc(roomBans.id));
+  }
+
+  async addRoomBan(ban: InsertRoomBan): Promise<RoomBan> {
+    const [created] = await this.db.insert(roomBans).values(ban).returning();
+    return created;
+  }
+
+  async deleteRoomBan(room: string, id: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(roomBans)
+      .where(and(eq(roomBans.room, room), eq(roomBans.id, id)))
+      .returning({ id: roomBans.id });
+    return removed.length > 0;
+  }
+
+  async addAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await this.db.insert(auditEvents).values(event).returning();
+    return created;
+  }
+
+  async queryAuditEvents(filters: AuditFilters): Promise<AuditEvent[]> {
+    const conditions: (SQL | undefined)[] = [];
+    if (filters.room) conditions.push(eq(auditEvents.room, filters.room));
+    if (filters.username) conditions.push(eq(auditEvents.username, filters.username));
+    if (filters.reason) conditions.push(eq(auditEvents.reason, filters.reason));
+
+    return this.db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(filters.limit);
+  }
+
+  async getRelaySources(): Promise<RelaySource[]> {
+    return this.db.select().from(relaySources).orderBy(asc(relaySources.id));
+  }
+
+  async getRelaySource(id: string): Promise<RelaySource | undefined> {
+    const [source] = await this.db.select().from(relaySources).where(eq(relaySources.id, id));
+    return source;
+  }
+
+  async saveRelaySource(source: InsertRelaySource): Promise<RelaySource> {
+    const { id, ...fields } = source;
+    const [saved] = await this.db
+      .insert(relaySources)
+      .values(source)
+      .onConflictDoUpdate({ target: relaySources.id, set: { ...fields, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async deleteRelaySource(id: string): Promise<boolean> {
+    const removed = await this.db
+      .delete(relaySources)
+      .where(eq(relaySources.id, id))
+      .returning({ id: relaySources.id });
+    return removed.length > 0;
+  }
+
+  async getFeedSubscriptions(room?: string): Promise<FeedSubscription[]> {
+    return this.db
+      .select()
+      .from(feedSubscriptions)
+      .where(room ? eq(feedSubscriptions.room, room) : undefined)
+      .orderBy(asc(feedSubscriptions.id));
+  }
+
+  async addFeedSubscription(subscription: InsertFeedSubscription): Promise<FeedSubscription> {
+    const [created] = await this.db.insert(feedSubscriptions).values(subscription).returning();
+    return created;
+  }
+
+  async deleteFeedSubscription(room: string, id: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(feedSubscriptions)
+      .where(and(eq(feedSubscriptions.room, room), eq(feedSubscriptions.id, id)))
+      .returning({ id: feedSubscriptions.id });
+    return removed.length > 0;
+  }
+
+  async recordFeedPoll(id: number, polledAt: Date, error: string | null): Promise<void> {
+    await this.db
+      .update(feedSubscriptions)
+      .set({ lastPolledAt: polledAt, lastError: error })
+      .where(eq(feedSubscriptions.id, id));
   }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when a database is provisioned, otherwise keep everything in memory.
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DrizzleStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,104 @@
+import { fromZodError } from "zod-validation-error";
+import { transcriptEntrySchema, type Message, type TranscriptEntry } from "@shared/schema";
+
+export const TRANSCRIPT_FORMATS = {
+  jsonl: { contentType: "application/x-ndjson; charset=utf-8", extension: "jsonl" },
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  txt: { contentType: "text/plain; charset=utf-8", extension: "txt" },
+} as const;
+
+export type TranscriptFormat = keyof typeof TRANSCRIPT_FORMATS;
+
+export const isTranscriptFormat = (value: string): value is TranscriptFormat =>
+  Object.prototype.hasOwnProperty.call(TRANSCRIPT_FORMATS, value);
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "room",
+  "username",
+  "content",
+  "userColor",
+  "fontSize",
+  "sourceUrl",
+  "sourceLabel",
+  "sourceBadge",
+  "storyUrl",
+  "storyLabel",
+] as const;
+
+const toEntry = (message: Message): TranscriptEntry & { id: number } => ({
+  id: message.id,
+  timestamp: new Date(message.timestamp),
+  room: message.room,
+  username: message.username,
+  content: message.content,
+  xPosition: message.xPosition,
+  yPosition: message.yPosition,
+  userColor: message.userColor,
+  fontSize: message.fontSize,
+  sourceUrl: message.sourceUrl,
+  sourceLabel: message.sourceLabel,
+  sourceBadge: message.sourceBadge,
+  storyUrl: message.storyUrl,
+  storyLabel: message.storyLabel,
+});
+
+const csvField = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Text emitted before the first message, e.g. the CSV header row
+export const transcriptPreamble = (format: TranscriptFormat): string =>
+  format === "csv" ? `${CSV_COLUMNS.join(",")}\r\n` : "";
+
+export const formatTranscriptLine = (message: Message, format: TranscriptFormat): string => {
+  const entry = toEntry(message);
+
+  switch (format) {
+    case "jsonl":
+      return `${JSON.stringify(entry)}\n`;
+    case "csv":
+      return `${CSV_COLUMNS.map((column) => csvField(entry[column])).join(",")}\r\n`;
+    case "txt": {
+      const links = [
+        entry.sourceUrl ? `[${entry.sourceLabel || "source"}: ${entry.sourceUrl}]` : "",
+        entry.storyUrl ? `[${entry.storyLabel || "link"}: ${entry.storyUrl}]` : "",
+      ].filter(Boolean);
+      const color = entry.userColor ? ` (${entry.userColor})` : "";
+      return `[${entry.timestamp.toISOString()}] ${entry.username}${color}: ${entry.content}${
+        links.length ? ` ${links.join(" ")}` : ""
+      }\n`;
+    }
+  }
+};
+
+// Parses a JSONL export back into entries, reporting the first bad line
+export const parseJsonlTranscript = (
+  text: string,
+): { entries: TranscriptEntry[] } | { error: string } => {
+  const entries: TranscriptEntry[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line) continue;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      return { error: `Line ${index + 1}: invalid JSON` };
+    }
+
+    const parsed = transcriptEntrySchema.safeParse(raw);
+    if (!parsed.success) {
+      return { error: `Line ${index + 1}: ${fromZodError(parsed.error).toString()}` };
+    }
+    entries.push(parsed.data);
+  }
+
+  return { entries };
+};
@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyTextEdit,
+  decodeClientKeystroke,
+  decodeServerFrame,
+  diffText,
+  encodeClientKeystroke,
+  encodeIntern,
+  encodeServerKeystroke,
+  type KeystrokeEdit,
+} from "./keystroke-codec";
+
+// Each pair is typed in order; every step must survive the wire unchanged
+const EDITS: Array<[string, string]> = [
+  ["", "hello"],
+  ["hello", "help"],
+  ["help", "hi 😀"],
+  ["hi 😀", "hi 😃"], // Same high surrogate, different low one
+  ["𐀀!", "𐐀!"], // Same low surrogate, different high one
+  ["😀😀", "😀"],
+  ["a👍🏽b", "a👍🏿b"], // Skin-tone modifiers are pairs too
+  ["café", "cafe"],
+  ["hi 😃", ""],
+];
+
+const LONE_SURROGATE = /\p{Surrogate}/u;
+
+const sendThroughServer = (previous: string, next: string) => {
+  const edit: KeystrokeEdit = { ...diffText(previous, next), isTyping: true, yPosition: 0.25 };
+  const received = decodeClientKeystroke(encodeClientKeystroke(edit));
+  assert.ok(received);
+  const relayed = decodeServerFrame(encodeServerKeystroke(7, received));
+  assert.ok(relayed?.op === "keystroke");
+  return relayed;
+};
+
+describe("diffText", () => {
+  it("keeps the common prefix and suffix", () => {
+    assert.deepEqual(diffText("hello world", "hello there world"), { offset: 6, deleteCount: 0, insert: "there " });
+    assert.deepEqual(diffText("abc", "abc"), { offset: 3, deleteCount: 0, insert: "" });
+  });
+
+  it("never splits a surrogate pair", () => {
+    for (const [previous, next] of EDITS) {
+      const { offset, deleteCount, insert } = diffText(previous, next);
+      // With the u flag a whole pair is one code point, so only lone halves match
+      const pieces = [previous.slice(0, offset), previous.slice(offset, offset + deleteCount), insert, previous.slice(offset + deleteCount)];
+      pieces.forEach((piece) => assert.doesNotMatch(piece, LONE_SURROGATE, `${JSON.stringify(previous)} -> ${JSON.stringify(next)}`));
+    }
+  });
+});
+
+describe("keystroke frames", () => {
+  it("round-trip every edit through client and server frames", () => {
+    for (const [previous, next] of EDITS) {
+      const relayed = sendThroughServer(previous, next);
+      assert.equal(relayed.typist, 7);
+      assert.equal(relayed.isTyping, true);
+      assert.equal(relayed.yPosition, 0.25);
+      assert.equal(applyTextEdit(previous, relayed), next, `${JSON.stringify(previous)} -> ${JSON.stringify(next)}`);
+    }
+  });
+
+  it("carries flags and leaves out a missing yPosition", () => {
+    const edit: KeystrokeEdit = { offset: 0, deleteCount: 0, insert: "whole text", isTyping: false, reset: true };
+    assert.deepEqual(decodeClientKeystroke(encodeClientKeystroke(edit)), { ...edit, yPosition: undefined });
+  });
+
+  it("rejects truncated or unknown frames", () => {
+    assert.equal(decodeClientKeystroke(new Uint8Array([1, 0, 0])), null);
+    assert.equal(decodeServerFrame(new Uint8Array([9, 0, 1, 0])), null);
+    assert.equal(decodeServerFrame(encodeIntern({ id: 1, username: "ada" }).subarray(0, 5)), null);
+  });
+});
+
+describe("intern frames", () => {
+  it("round-trip names and optional styling", () => {
+    assert.deepEqual(decodeServerFrame(encodeIntern({ id: 513, username: "zoë 🌙", userColor: "#ff00aa", fontSize: "lg" })), {
+      op: "intern",
+      id: 513,
+      username: "zoë 🌙",
+      userColor: "#ff00aa",
+      fontSize: "lg",
+    });
+    assert.deepEqual(decodeServerFrame(encodeIntern({ id: 2, username: "ada" })), {
+      op: "intern",
+      id: 2,
+      username: "ada",
+      userColor: undefined,
+      fontSize: undefined,
+    });
+  });
+});
+
+describe("applyTextEdit", () => {
+  it("refuses edits that run past the text", () => {
+    assert.equal(applyTextEdit("abc", { offset: 4, deleteCount: 0, insert: "x" }), null);
+    assert.equal(applyTextEdit("abc", { offset: 2, deleteCount: 2, insert: "" }), null);
+    assert.equal(applyTextEdit("abc", { offset: 1, deleteCount: 1, insert: "😀" }), "a😀c");
+  });
+});
@@ -0,0 +1,170 @@
+// Compact binary keystroke frames, used on connections that negotiate the
+// "binaryKeystrokes" capability. Instead of a JSON object with the full text,
+// each frame carries one edit (replace `deleteCount` UTF-16 units at `offset`
+// with `insert`) against the text the receiver already has for that typist.
+// Integers are big-endian.
+//
+//   client -> server  keystroke: u8 op=1 | u8 flags | f32 yPosition | u32 offset | u32 deleteCount | utf8 insert
+//   server -> client  keystroke: u8 op=1 | u16 typist | u8 flags | f32 yPosition | u32 offset | u32 deleteCount | utf8 insert
+//   server -> client  intern:    u8 op=2 | u16 typist | (u16 length | utf8) x 3 for username, userColor, fontSize
+//
+// The server interns each (username, colour, font size) as a typist id and
+// sends the intern frame before a connection's first keystroke from that id.
+// Client frames need neither: the socket's token names the user and room.
+export const KEYSTROKE_OP = 1;
+export const INTERN_OP = 2;
+export const MAX_TYPIST_ID = 0xffff;
+
+const FLAG_TYPING = 1;
+const FLAG_HAS_Y = 2;
+const FLAG_RESET = 4; // `insert` is the whole text; whatever the receiver had is dropped
+const EDIT_HEADER = 13; // flags, yPosition, offset, deleteCount
+
+export interface TextEdit {
+  offset: number;
+  deleteCount: number;
+  insert: string;
+}
+
+export interface KeystrokeEdit extends TextEdit {
+  isTyping: boolean;
+  yPosition?: number;
+  reset?: boolean;
+}
+
+export interface TypistIntern {
+  id: number;
+  username: string;
+  userColor?: string;
+  fontSize?: string;
+}
+
+export type ServerBinaryFrame =
+  | ({ op: "keystroke"; typist: number } & KeystrokeEdit)
+  | ({ op: "intern" } & TypistIntern);
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const isHighSurrogate = (code: number) => code >= 0xd800 && code <= 0xdbff;
+const isLowSurrogate = (code: number) => code >= 0xdc00 && code <= 0xdfff;
+
+// Smallest single edit turning `previous` into `next`: common prefix and suffix are kept.
+// Neither stops between the halves of a surrogate pair, since `insert` goes out as UTF-8
+// and a lone half would be replaced with U+FFFD.
+export const diffText = (previous: string, next: string): TextEdit => {
+  let prefix = 0;
+  const shorter = Math.min(previous.length, next.length);
+  while (prefix < shorter && previous[prefix] === next[prefix]) prefix++;
+  if (prefix > 0 && isHighSurrogate(previous.charCodeAt(prefix - 1))) prefix--;
+
+  let suffix = 0;
+  while (
+    suffix < shorter - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) suffix++;
+  if (suffix > 0 && isLowSurrogate(next.charCodeAt(next.length - suffix))) suffix--;
+
+  return {
+    offset: prefix,
+    deleteCount: previous.length - prefix - suffix,
+    insert: next.slice(prefix, next.length - suffix),
+  };
+};
+
+// Null when the edit doesn't fit the text, i.e. the two sides disagree about it
+export const applyTextEdit = (text: string, { offset, deleteCount, insert }: TextEdit): string | null => {
+  if (offset > text.length || offset + deleteCount > text.length) return null;
+  return text.slice(0, offset) + insert + text.slice(offset + deleteCount);
+};
+
+const editFlags = (edit: KeystrokeEdit) =>
+  (edit.isTyping ? FLAG_TYPING : 0) | (edit.yPosition !== undefined ? FLAG_HAS_Y : 0) | (edit.reset ? FLAG_RESET : 0);
+
+const writeEdit = (view: DataView, bytes: Uint8Array, at: number, edit: KeystrokeEdit, insert: Uint8Array) => {
+  view.setUint8(at, editFlags(edit));
+  view.setFloat32(at + 1, edit.yPosition ?? 0);
+  view.setUint32(at + 5, edit.offset);
+  view.setUint32(at + 9, edit.deleteCount);
+  bytes.set(insert, at + EDIT_HEADER);
+};
+
+const readEdit = (view: DataView, bytes: Uint8Array, at: number): KeystrokeEdit => {
+  const flags = view.getUint8(at);
+  return {
+    isTyping: Boolean(flags & FLAG_TYPING),
+    yPosition: flags & FLAG_HAS_Y ? view.getFloat32(at + 1) : undefined,
+    reset: Boolean(flags & FLAG_RESET),
+    offset: view.getUint32(at + 5),
+    deleteCount: view.getUint32(at + 9),
+    insert: decoder.decode(bytes.subarray(at + EDIT_HEADER)),
+  };
+};
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+export const encodeClientKeystroke = (edit: KeystrokeEdit): Uint8Array => {
+  const insert = encoder.encode(edit.insert);
+  const bytes = new Uint8Array(1 + EDIT_HEADER + insert.length);
+  const view = viewOf(bytes);
+  view.setUint8(0, KEYSTROKE_OP);
+  writeEdit(view, bytes, 1, edit, insert);
+  return bytes;
+};
+
+export const decodeClientKeystroke = (bytes: Uint8Array): KeystrokeEdit | null => {
+  if (bytes.length < 1 + EDIT_HEADER || bytes[0] !== KEYSTROKE_OP) return null;
+  return readEdit(viewOf(bytes), bytes, 1);
+};
+
+export const encodeServerKeystroke = (typist: number, edit: KeystrokeEdit): Uint8Array => {
+  const insert = encoder.encode(edit.insert);
+  const bytes = new Uint8Array(3 + EDIT_HEADER + insert.length);
+  const view = viewOf(bytes);
+  view.setUint8(0, KEYSTROKE_OP);
+  view.setUint16(1, typist);
+  writeEdit(view, bytes, 3, edit, insert);
+  return bytes;
+};
+
+export const encodeIntern = ({ id, username, userColor, fontSize }: TypistIntern): Uint8Array => {
+  const fields = [username, userColor ?? "", fontSize ?? ""].map((field) => encoder.encode(field));
+  const bytes = new Uint8Array(3 + fields.reduce((size, field) => size + 2 + field.length, 0));
+  const view = viewOf(bytes);
+  view.setUint8(0, INTERN_OP);
+  view.setUint16(1, id);
+  let at = 3;
+  fields.forEach((field) => {
+    view.setUint16(at, field.length);
+    bytes.set(field, at + 2);
+    at += 2 + field.length;
+  });
+  return bytes;
+};
+
+export const decodeServerFrame = (bytes: Uint8Array): ServerBinaryFrame | null => {
+  if (bytes.length < 3) return null;
+  const view = viewOf(bytes);
+  const id = view.getUint16(1);
+
+  if (bytes[0] === KEYSTROKE_OP) {
+    if (bytes.length < 3 + EDIT_HEADER) return null;
+    return { op: "keystroke", typist: id, ...readEdit(view, bytes, 3) };
+  }
+
+  if (bytes[0] === INTERN_OP) {
+    const fields: string[] = [];
+    let at = 3;
+    for (let i = 0; i < 3; i++) {
+      if (at + 2 > bytes.length) return null;
+      const length = view.getUint16(at);
+      if (at + 2 + length > bytes.length) return null;
+      fields.push(decoder.decode(bytes.subarray(at + 2, at + 2 + length)));
+      at += 2 + length;
+    }
+    const [username, userColor, fontSize] = fields;
+    return { op: "intern", id, username, userColor: userColor || undefined, fontSize: fontSize || undefined };
+  }
+
+  return null;
+};
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, index, primaryKey, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,9 +15,13 @@ export const messages = pgTable("messages", {
   fontSize: text("font_size"),
   sourceUrl: text("source_url"),
   sourceLabel: text("source_label"),
+  sourceBadge: text("source_badge"), // RelayBadgeStyle of the source badge
   storyUrl: text("story_url"),
   storyLabel: text("story_label"),
-});
+  editedAt: timestamp("edited_at"),
+}, (table) => [
+  index("messages_room_timestamp_idx").on(table.room, table.timestamp),
+]);
 
 export const insertMessageSchema = createInsertSchema(messages).pick({
   username: true,
@@ -26,8 +30,11 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
   isTyping: true,
   xPosition: true,
   yPosition: true,
+  userColor: true,
+  fontSize: true,
   sourceUrl: true,
   sourceLabel: true,
+  sourceBadge: true,
   storyUrl: true,
   storyLabel: true,
 });
@@ -35,9 +42,384 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 
-// WebSocket message types
+// Registered accounts; their usernames are reserved in every room
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = Pick<typeof users.$inferInsert, "username" | "passwordHash">;
+
+export const accountCredentialsSchema = z.object({
+  username: z.string().trim().min(1).max(32),
+  password: z.string().min(8).max(200),
+});
+
+export type AccountCredentials = z.infer<typeof accountCredentialsSchema>;
+
+// The signed-in account as kept in the login session and returned by /api/auth/*
+export interface Account {
+  id: number;
+  username: string;
+}
+
+// Badge colours a relayed message's source label can use
+export const RELAY_BADGE_STYLES = ["neutral", "slate", "orange", "emerald", "red", "blue", "purple"] as const;
+
+export type RelayBadgeStyle = typeof RELAY_BADGE_STYLES[number];
+
+// Dot paths into a webhook payload (e.g. "pull_request.title", "commits.0.url")
+export type RelayFieldMapping = {
+  title?: string;
+  text?: string;
+  url?: string;
+  author?: string;
+};
+
+// Webhook sources allowed to push into rooms via POST /api/relay/:sourceId
+export const relaySources = pgTable("relay_sources", {
+  id: text("id").primaryKey(),
+  label: text("label").notNull(),
+  badgeStyle: text("badge_style").$type<RelayBadgeStyle>().notNull(),
+  token: text("token").notNull(), // Shared secret: sent in x-relay-token, or the HMAC key when signed
+  signed: boolean("signed").default(false).notNull(), // Require HMAC-signed pushes instead of the plain token
+  rooms: text("rooms").array().notNull(),
+  fieldMapping: jsonb("field_mapping").$type<RelayFieldMapping>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type RelaySource = typeof relaySources.$inferSelect;
+export type InsertRelaySource = Omit<typeof relaySources.$inferInsert, "createdAt" | "updatedAt">;
+
+// "hn-item" is taken by the built-in Hacker News relay
+export const relaySourceIdSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]{0,39}$/).refine((id) => id !== "hn-item", "Reserved source id");
+
+const relayFieldPathSchema = z.string().regex(/^[\w-]+(\.[\w-]+)*$/, "Expected a dot path such as issue.title").max(200);
+
+export const relaySourceSchema = z.object({
+  label: z.string().trim().min(1).max(24),
+  badgeStyle: z.enum(RELAY_BADGE_STYLES).default("neutral"),
+  token: z.string().min(16).max(200),
+  signed: z.boolean().default(false),
+  rooms: z.array(z.string().trim().min(1).max(100)).min(1).max(20),
+  fieldMapping: z.object({
+    title: relayFieldPathSchema.optional(),
+    text: relayFieldPathSchema.optional(),
+    url: relayFieldPathSchema.optional(),
+    author: relayFieldPathSchema.optional(),
+  }).refine((mapping) => mapping.title || mapping.text, "Map at least one of title or text"),
+});
+
+// RSS/Atom feeds polled by the server; new entries are relayed into the room
+export const feedSubscriptions = pgTable("feed_subscriptions", {
+  id: serial("id").primaryKey(),
+  room: text("room").notNull(),
+  url: text("url").notNull(),
+  label: text("label").notNull(),
+  badgeStyle: text("badge_style").$type<RelayBadgeStyle>().notNull(),
+  lastPolledAt: timestamp("last_polled_at"),
+  lastError: text("last_error"), // Null after a successful poll
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("feed_subscriptions_room_idx").on(table.room),
+]);
+
+export type FeedSubscription = typeof feedSubscriptions.$inferSelect;
+export type InsertFeedSubscription = Pick<typeof feedSubscriptions.$inferInsert, "room" | "url" | "label" | "badgeStyle">;
+
+export const feedSubscriptionSchema = z.object({
+  url: z.string().url().refine((url) => /^https?:\/\//i.test(url), "Feed URL must be http or https"),
+  label: z.string().trim().min(1).max(24).default("RSS"),
+  badgeStyle: z.enum(RELAY_BADGE_STYLES).default("orange"),
+});
+
+// Per-room settings; a room without a row uses the server defaults
+export const roomSettings = pgTable("room_settings", {
+  room: text("room").primaryKey(),
+  retentionMaxAgeMinutes: integer("retention_max_age_minutes"),
+  retentionMaxCount: integer("retention_max_count"),
+  hidden: boolean("hidden").default(false).notNull(),
+  // scrypt hash of the room passphrase; null for public rooms
+  passphraseHash: text("passphrase_hash"),
+  // Content filter pipeline settings; null uses the server defaults
+  contentFilters: jsonb("content_filters").$type<ContentFilterConfig>(),
+  // Token-bucket quotas for this room; null uses the server defaults
+  rateLimits: jsonb("rate_limits").$type<RateLimitConfig>(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type RoomSettings = typeof roomSettings.$inferSelect;
+
+// Registered accounts that may kick, mute and ban in a room
+export const roomModerators = pgTable("room_moderators", {
+  room: text("room").notNull(),
+  username: text("username").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.room, table.username] }),
+]);
+
+// A ban matches a socket on any of the identifiers it records; null expiresAt is permanent
+export const roomBans = pgTable("room_bans", {
+  id: serial("id").primaryKey(),
+  room: text("room").notNull(),
+  username: text("username").notNull(),
+  sessionId: text("session_id"),
+  fingerprint: text("fingerprint"),
+  ip: text("ip"),
+  reason: text("reason"),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"),
+}, (table) => [
+  index("room_bans_room_idx").on(table.room),
+]);
+
+export type RoomBan = typeof roomBans.$inferSelect;
+export type InsertRoomBan = Omit<typeof roomBans.$inferInsert, "id" | "createdAt">;
+
+// Why the server dropped a frame; sent back to the sender in `rejected` frames
+export const REJECTION_REASONS = [
+  "rate_limit", "too_long", "repeated_chars", "special_chars", "blocked_word", "disallowed_link",
+  "out_of_scope", "muted",
+  "edit_rejected", "retract_rejected",
+] as const;
+
+export type RejectionReason = typeof REJECTION_REASONS[number];
+
+// Why a frame was dropped, or which moderator action was taken
+export const AUDIT_REASONS = [
+  ...REJECTION_REASONS,
+  "banned",
+  "kick", "mute", "unmute", "ban", "unban",
+] as const;
+
+export type AuditReason = typeof AUDIT_REASONS[number];
+
+// Structured record of every rejected frame and moderator action; content is only kept as a hash
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  room: text("room").notNull(),
+  username: text("username"),
+  actor: text("actor"), // Moderator who acted; null for automatic rejections
+  reason: text("reason").$type<AuditReason>().notNull(),
+  detail: text("detail"),
+  contentHash: text("content_hash"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_events_room_created_idx").on(table.room, table.createdAt),
+]);
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = Omit<typeof auditEvents.$inferInsert, "id" | "createdAt">;
+
+const moderationTargetSchema = z.object({
+  username: z.string().min(1),
+  reason: z.string().max(200).optional(),
+});
+
+export const kickRequestSchema = moderationTargetSchema;
+
+export const muteRequestSchema = moderationTargetSchema.extend({
+  durationMinutes: z.number().int().positive().max(7 * 24 * 60),
+});
+
+export const banRequestSchema = moderationTargetSchema.extend({
+  durationMinutes: z.number().int().positive().nullable().default(null),
+  by: z.array(z.enum(["session", "fingerprint", "ip"])).min(1).default(["session", "fingerprint", "ip"]),
+});
+
+// Content filters run in order; each can reject the message, mask the offending
+// part, or let it through and flag it in the audit log
+const filterActionSchema = z.enum(["reject", "mask", "flag"]);
+
+const isValidPattern = (source: string) => {
+  try {
+    new RegExp(source, "u");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const contentFilterConfigSchema = z.object({
+  length: z.object({
+    enabled: z.boolean(),
+    action: filterActionSchema,
+    max: z.number().int().positive(),
+  }),
+  repetition: z.object({
+    enabled: z.boolean(),
+    action: filterActionSchema,
+    maxRun: z.number().int().positive(), // Longest allowed run of one character
+  }),
+  symbols: z.object({
+    enabled: z.boolean(),
+    action: filterActionSchema,
+    maxRatio: z.number().min(0).max(1), // Share of punctuation/symbols; letters in any script and emoji don't count
+  }),
+  blocklist: z.object({
+    enabled: z.boolean(),
+    action: filterActionSchema,
+    words: z.array(z.string().trim().min(1).max(100)).max(1000),
+    patterns: z.array(z.string().min(1).max(200).refine(isValidPattern, "Invalid regular expression")).max(100),
+  }),
+  links: z.object({
+    enabled: z.boolean(),
+    action: filterActionSchema,
+    allowedDomains: z.array(z.string().trim().toLowerCase().min(1)).max(200),
+  }),
+});
+
+export type FilterAction = z.infer<typeof filterActionSchema>;
+export type ContentFilterConfig = z.infer<typeof contentFilterConfigSchema>;
+
+// Updates may touch any subset of filters and fields
+export const contentFilterUpdateSchema = z.object({
+  length: contentFilterConfigSchema.shape.length.partial().optional(),
+  repetition: contentFilterConfigSchema.shape.repetition.partial().optional(),
+  symbols: contentFilterConfigSchema.shape.symbols.partial().optional(),
+  blocklist: contentFilterConfigSchema.shape.blocklist.partial().optional(),
+  links: contentFilterConfigSchema.shape.links.partial().optional(),
+});
+
+export type ContentFilterUpdate = z.infer<typeof contentFilterUpdateSchema>;
+
+// Token buckets hold up to `capacity` frames and refill continuously; each kind
+// of traffic has its own bucket per session and per remote IP
+export const RATE_LIMIT_KINDS = ["keystroke", "message", "join", "presence", "relay"] as const;
+
+export type RateLimitKind = typeof RATE_LIMIT_KINDS[number];
+
+const rateLimitBucketSchema = z.object({
+  capacity: z.number().int().positive().max(10000),
+  refillPerMinute: z.number().positive().max(60000),
+});
+
+export const rateLimitConfigSchema = z.object({
+  keystroke: rateLimitBucketSchema,
+  message: rateLimitBucketSchema,
+  join: rateLimitBucketSchema,
+  presence: rateLimitBucketSchema, // Away toggles and latency pings
+  relay: rateLimitBucketSchema,
+});
+
+export type RateLimitBucket = z.infer<typeof rateLimitBucketSchema>;
+export type RateLimitConfig = z.infer<typeof rateLimitConfigSchema>;
+
+export const rateLimitUpdateSchema = z.object({
+  keystroke: rateLimitBucketSchema.partial().optional(),
+  message: rateLimitBucketSchema.partial().optional(),
+  join: rateLimitBucketSchema.partial().optional(),
+  presence: rateLimitBucketSchema.partial().optional(),
+  relay: rateLimitBucketSchema.partial().optional(),
+});
+
+export type RateLimitUpdate = z.infer<typeof rateLimitUpdateSchema>;
+
+// Retention policy: null limits are unbounded, so both null means "keep forever"
+export const retentionPolicySchema = z.object({
+  maxAgeMinutes: z.number().int().positive().nullable(),
+  maxCount: z.number().int().positive().nullable(),
+});
+
+export type RetentionPolicy = z.infer<typeof retentionPolicySchema>;
+
+// Room directory entry served by /api/rooms
+export interface RoomSummary {
+  room: string;
+  userCount: number;
+  messagesPerMinute: number;
+  lastActivity: string | null;
+  hidden?: boolean;
+  private?: boolean;
+}
+
+// Setting a null passphrase makes the room public again
+export const roomPassphraseSchema = z.object({
+  passphrase: z.string().min(4).max(200).nullable(),
+});
+
+// A page of room history; nextCursor continues in the direction the page was read
+export interface MessagePage {
+  messages: Message[];
+  nextCursor: string | null;
+}
+
+// History cursors that name a message are "id:<message id>". The prefix keeps them apart
+// from instants: a bare number in before/after is epoch milliseconds, as in since/until.
+export const messageIdCursor = (id: number) => `id:${id}`;
+
+export const parseMessageIdCursor = (cursor: string): number | undefined => {
+  const match = cursor.match(/^id:(\d+)$/);
+  return match ? Number(match[1]) : undefined;
+};
+
+// One message in a room transcript export; importing a JSONL export accepts the same shape
+export const transcriptEntrySchema = z.object({
+  timestamp: z.coerce.date(),
+  room: z.string().optional(),
+  username: z.string().min(1),
+  content: z.string(),
+  xPosition: z.number().default(0),
+  yPosition: z.number().default(50),
+  userColor: z.string().nullish(),
+  fontSize: z.string().nullish(),
+  sourceUrl: z.string().nullish(),
+  sourceLabel: z.string().nullish(),
+  sourceBadge: z.string().nullish(),
+  storyUrl: z.string().nullish(),
+  storyLabel: z.string().nullish(),
+});
+
+export type TranscriptEntry = z.infer<typeof transcriptEntrySchema>;
+
+// Search hit; snippet is HTML-escaped with matches wrapped in <mark>
+export interface SearchResult {
+  message: Message;
+  snippet: string;
+}
+
+// One entry of a room's presence roster; a user with several tabs appears once
+export const presenceUserSchema = z.object({
+  username: z.string(),
+  userColor: z.string().optional(),
+  isTyping: z.boolean(),
+  away: z.boolean().optional(), // Every tab of theirs has been idle for a while
+});
+
+export type PresenceUser = z.infer<typeof presenceUserSchema>;
+
+// Versioned WebSocket protocol. A client that opens with a hello frame gets a welcome naming the
+// negotiated version and capabilities, and only receives the optional frames it asked for.
+// Clients that never say hello are treated as version 1 and receive everything.
+export const WS_PROTOCOL_VERSION = 2;
+
+// Optional frame streams: keystrokes (live typing), presence (presenceDiff roster updates),
+// replay (missed frames on rejoin) and rejections (rejected frames for dropped sends).
+// binaryKeystrokes switches keystrokes to the compact edits in keystroke-codec.ts both ways;
+// unlike the others it is never assumed for version 1 clients.
+export const WS_CAPABILITIES = ["keystrokes", "presence", "replay", "rejections", "binaryKeystrokes"] as const;
+
+export type WsCapability = typeof WS_CAPABILITIES[number];
+
+// Sent in error frames when the server can't act on a frame at all
+export const PROTOCOL_ERROR_CODES = ["invalid_json", "invalid_frame", "unknown_type", "unexpected_hello"] as const;
+
+export type ProtocolErrorCode = typeof PROTOCOL_ERROR_CODES[number];
+
+// Flat view of every frame, with every field optional. The bundled client reads frames through
+// it; what the server accepts is the stricter clientFrameSchema below.
 export const wsMessageSchema = z.object({
-  type: z.enum(["keystroke", "newMessage", "join", "leave", "nameError"]),
+  type: z.enum([
+    "keystroke", "newMessage", "join", "leave", "nameError", "ack", "editMessage", "deleteMessage",
+    "presence", "presenceDiff", "accessDenied", "moderation", "rejected", "ping", "pong", "away",
+    "hello", "welcome", "error",
+  ]),
   username: z.string(),
   content: z.string().optional(),
   room: z.string().default("global"),
@@ -46,18 +428,274 @@ export const wsMessageSchema = z.object({
   yPosition: z.number().optional(),
   userColor: z.string().optional(),
   fontSize: z.string().optional(),
-  sessionId: z.string().optional(),
   browserFingerprint: z.string().optional(),
   error: z.string().optional(),
   sourceUrl: z.string().optional(),
   sourceLabel: z.string().optional(),
+  sourceBadge: z.string().optional(),
   storyUrl: z.string().optional(),
   storyLabel: z.string().optional(),
   serverPrepared: z.boolean().optional(),
+  // Stored message id/ISO timestamp assigned by the server on newMessage and ack
+  id: z.number().int().optional(),
+  timestamp: z.string().optional(),
+  // Client-chosen token echoed back in the ack so the sender can match its bubble
+  nonce: z.string().max(64).optional(),
+  // ISO time of the latest edit, sent with editMessage broadcasts
+  editedAt: z.string().optional(),
+  // presence carries the full roster; presenceDiff carries one change to it
+  users: z.array(presenceUserSchema).optional(),
+  presenceAction: z.enum(["join", "leave", "update"]).optional(),
+  presenceUser: presenceUserSchema.optional(),
+  // Sent with join to enter a passphrase-protected room
+  passphrase: z.string().max(200).optional(),
+  // moderation frames tell a user they were muted (until mutedUntil) or unmuted
+  moderationAction: z.enum(["mute", "unmute"]).optional(),
+  mutedUntil: z.string().optional(),
+  // rejected frames echo the dropped frame's nonce (or message id) with a reason code; `error` explains it
+  rejectionReason: z.enum(REJECTION_REASONS).optional(),
+  // With rate_limit rejections: how long until the bucket admits another frame
+  retryAfterMs: z.number().int().optional(),
+  // Room sequence number on newMessage/editMessage/deleteMessage broadcasts; the presence frame
+  // sent on join carries the current one along with the server's replayEpoch
+  seq: z.number().int().optional(),
+  replayEpoch: z.string().max(64).optional(),
+  // Sent with join after a reconnect (with the replayEpoch it came from) to replay what was missed
+  lastSeq: z.number().int().nonnegative().optional(),
+  // ping frames (answered by pong, echoing the nonce) let clients measure latency; the presence
+  // frame sent on join says how often to send them
+  heartbeatMs: z.number().int().positive().optional(),
+  // Sent with join and in away frames when the user goes idle or comes back
+  away: z.boolean().optional(),
+  // hello/welcome negotiation
+  version: z.number().int().positive().optional(),
+  capabilities: z.array(z.string()).optional(),
+  // error frames: what went wrong and, when it could be read, the type of the offending frame
+  code: z.enum(PROTOCOL_ERROR_CODES).optional(),
+  frameType: z.string().optional(),
 });
 
 export type WSMessage = z.infer<typeof wsMessageSchema>;
 
+// Frames a client may send, one schema per type
+const clientFrameBase = {
+  username: z.string(),
+  room: z.string().default("global"),
+};
+
+export const helloFrameSchema = z.object({
+  type: z.literal("hello"),
+  version: z.number().int().positive(),
+  capabilities: z.array(z.string().max(32)).max(32).default([]), // Ones the server doesn't know are ignored
+  client: z.string().max(64).optional(), // Client name/version, for the server log
+});
+
+export const keystrokeFrameSchema = z.object({
+  type: z.literal("keystroke"),
+  ...clientFrameBase,
+  content: z.string().optional(),
+  isTyping: z.boolean().optional(),
+  xPosition: z.number().optional(),
+  yPosition: z.number().optional(),
+  userColor: z.string().optional(),
+  fontSize: z.string().optional(),
+});
+
+export const newMessageFrameSchema = z.object({
+  type: z.literal("newMessage"),
+  ...clientFrameBase,
+  content: z.string().min(1),
+  xPosition: z.number().optional(),
+  yPosition: z.number().optional(),
+  userColor: z.string().optional(),
+  fontSize: z.string().optional(),
+  nonce: z.string().max(64).optional(),
+  sourceUrl: z.string().optional(),
+  sourceLabel: z.string().optional(),
+  storyUrl: z.string().optional(),
+  storyLabel: z.string().optional(),
+  serverPrepared: z.boolean().optional(),
+});
+
+export const editMessageFrameSchema = z.object({
+  type: z.literal("editMessage"),
+  ...clientFrameBase,
+  id: z.number().int(),
+  content: z.string().min(1),
+});
+
+export const deleteMessageFrameSchema = z.object({
+  type: z.literal("deleteMessage"),
+  ...clientFrameBase,
+  id: z.number().int(),
+});
+
+export const joinFrameSchema = z.object({
+  type: z.literal("join"),
+  ...clientFrameBase,
+  userColor: z.string().optional(),
+  browserFingerprint: z.string().optional(),
+  passphrase: z.string().max(200).optional(),
+  away: z.boolean().optional(),
+  lastSeq: z.number().int().nonnegative().optional(),
+  replayEpoch: z.string().max(64).optional(),
+});
+
+export const leaveFrameSchema = z.object({
+  type: z.literal("leave"),
+  ...clientFrameBase,
+});
+
+export const pingFrameSchema = z.object({
+  type: z.literal("ping"),
+  ...clientFrameBase,
+  nonce: z.string().max(64).optional(),
+});
+
+export const awayFrameSchema = z.object({
+  type: z.literal("away"),
+  ...clientFrameBase,
+  away: z.boolean(),
+});
+
+export const clientFrameSchema = z.discriminatedUnion("type", [
+  helloFrameSchema,
+  keystrokeFrameSchema,
+  newMessageFrameSchema,
+  editMessageFrameSchema,
+  deleteMessageFrameSchema,
+  joinFrameSchema,
+  leaveFrameSchema,
+  pingFrameSchema,
+  awayFrameSchema,
+]);
+
+export type ClientFrame = z.infer<typeof clientFrameSchema>;
+
+export const CLIENT_FRAME_TYPES = clientFrameSchema.options.map((option) => option.shape.type.value);
+
+// Frames the server sends, one schema per type
+const serverFrameBase = {
+  username: z.string(),
+  room: z.string(),
+};
+
+const messageFields = {
+  content: z.string(),
+  xPosition: z.number().optional(),
+  yPosition: z.number().optional(),
+  userColor: z.string().optional(),
+  fontSize: z.string().optional(),
+  sourceUrl: z.string().optional(),
+  sourceLabel: z.string().optional(),
+  sourceBadge: z.string().optional(),
+  storyUrl: z.string().optional(),
+  storyLabel: z.string().optional(),
+  serverPrepared: z.boolean().optional(),
+  id: z.number().int().optional(),
+  timestamp: z.string().optional(),
+  seq: z.number().int().optional(),
+  nonce: z.string().optional(), // The sender's, so a replay can settle its optimistic bubble
+};
+
+export const serverFrameSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("welcome"),
+    version: z.number().int().positive(),
+    capabilities: z.array(z.enum(WS_CAPABILITIES)),
+    heartbeatMs: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("error"),
+    code: z.enum(PROTOCOL_ERROR_CODES),
+    error: z.string(),
+    frameType: z.string().optional(),
+    nonce: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("keystroke"),
+    ...serverFrameBase,
+    content: z.string().optional(),
+    isTyping: z.boolean().optional(),
+    xPosition: z.number().optional(),
+    yPosition: z.number().optional(),
+    userColor: z.string().optional(),
+    fontSize: z.string().optional(),
+  }),
+  z.object({ type: z.literal("newMessage"), ...serverFrameBase, ...messageFields }),
+  z.object({
+    type: z.literal("editMessage"),
+    ...serverFrameBase,
+    id: z.number().int(),
+    content: z.string(),
+    editedAt: z.string().optional(),
+    seq: z.number().int().optional(),
+  }),
+  z.object({
+    type: z.literal("deleteMessage"),
+    ...serverFrameBase,
+    id: z.number().int(),
+    seq: z.number().int().optional(),
+  }),
+  z.object({
+    type: z.literal("ack"),
+    ...serverFrameBase,
+    nonce: z.string(),
+    id: z.number().int(),
+    timestamp: z.string(),
+    content: z.string(),
+  }),
+  z.object({ type: z.literal("join"), ...serverFrameBase }),
+  z.object({ type: z.literal("leave"), ...serverFrameBase }),
+  z.object({
+    type: z.literal("presence"),
+    ...serverFrameBase,
+    users: z.array(presenceUserSchema),
+    heartbeatMs: z.number().int().positive().optional(),
+    replayEpoch: z.string().optional(),
+    seq: z.number().int().optional(),
+  }),
+  z.object({
+    type: z.literal("presenceDiff"),
+    ...serverFrameBase,
+    presenceAction: z.enum(["join", "leave", "update"]),
+    presenceUser: presenceUserSchema,
+  }),
+  z.object({ type: z.literal("nameError"), ...serverFrameBase, error: z.string() }),
+  z.object({ type: z.literal("accessDenied"), ...serverFrameBase, error: z.string() }),
+  z.object({
+    type: z.literal("moderation"),
+    ...serverFrameBase,
+    moderationAction: z.enum(["mute", "unmute"]),
+    mutedUntil: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("rejected"),
+    ...serverFrameBase,
+    nonce: z.string().optional(),
+    id: z.number().int().optional(),
+    rejectionReason: z.enum(REJECTION_REASONS),
+    retryAfterMs: z.number().int().optional(),
+    error: z.string(),
+  }),
+  z.object({ type: z.literal("pong"), ...serverFrameBase, nonce: z.string().optional() }),
+]);
+
+export type ServerFrame = z.infer<typeof serverFrameSchema>;
+
+// REST handshake that mints the signed token required on the /ws upgrade
+export const socketTokenRequestSchema = z.object({
+  username: z.string().min(1),
+  room: z.string().min(1),
+  previousToken: z.string().optional(),
+});
+
+// Close code for a missing, tampered or expired socket token; clients fetch a new one and reconnect
+export const WS_CLOSE_TOKEN_REJECTED = 4001;
+// Moderator removals; clients should not reconnect automatically after either
+export const WS_CLOSE_KICKED = 4002;
+export const WS_CLOSE_BANNED = 4003;
+
 // Session management types
 export interface UserSession {
   sessionId: string;